@@ -1,9 +1,24 @@
 #!/usr/bin/env bun
 import { Command } from 'commander'
 import { addCommand } from '../src/commands/add.js'
+import { adoptCommand } from '../src/commands/adopt.js'
+import { agentsCommand } from '../src/commands/agents.js'
+import {
+  answersExportCommand,
+  answersForgetCommand,
+  answersListCommand,
+} from '../src/commands/answers.js'
 import { buildCommand } from '../src/commands/build.js'
+import { cacheCleanCommand, cacheListCommand } from '../src/commands/cache.js'
+import { doctorCommand } from '../src/commands/doctor.js'
+import { installCommand } from '../src/commands/install.js'
 import { listCommand } from '../src/commands/list.js'
+import { outdatedCommand } from '../src/commands/outdated.js'
+import { reconfigureCommand } from '../src/commands/reconfigure.js'
 import { removeCommand } from '../src/commands/remove.js'
+import { syncCommand } from '../src/commands/sync.js'
+import { updateCommand } from '../src/commands/update.js'
+import { setWorkspaceRoot } from '../src/lib/paths.js'
 
 // Version is injected at build time via --define
 declare const BUILD_VERSION: string
@@ -15,43 +30,285 @@ program
   .name('taito')
   .description('CLI for installing customizable Agent Skills')
   .version(version)
+  .option('--root <dir>', 'Use this directory as the workspace root')
+  .option('--workspace-root <dir>', 'Alias for --root')
+  .hook('preAction', () => {
+    const { root, workspaceRoot } = program.opts()
+    try {
+      setWorkspaceRoot(root ?? workspaceRoot)
+    } catch (error) {
+      program.error((error as Error).message)
+    }
+  })
 
 program
   .command('add <source>')
-  .description('Install a skill from GitHub (owner/repo) or local path')
+  .description(
+    'Install a skill from GitHub (owner/repo), a git URL, or local path'
+  )
   .option('-c, --config <path>', 'Path to preset config file (TOML)')
   .option('-d, --dry-run', 'Preview changes without writing files')
+  .option('--json', 'Print the dry run as JSON')
   .option('-o, --output <path>', 'Custom output directory')
   .option('-r, --ref <ref>', 'Git ref (branch, tag, or commit)')
   .option(
-    '-a, --agent <agent>',
-    'Target agent (cursor, claudeCode, windsurf, etc.)'
+    '-a, --agent <agents>',
+    'Target agent(s), comma-separated (cursor, claudeCode, windsurf, etc.)'
+  )
+  .option('--all-agents', 'Install for every detected agent')
+  .option(
+    '--link <mode>',
+    'Share one copy in .taito/skills between agents (symlink or copy)'
+  )
+  .option(
+    '-f, --format <format>',
+    'Also write the skill as cursor-rules, agents-md or copilot instructions'
   )
   .option('-g, --global', 'Install globally instead of locally')
+  .option(
+    '-p, --package <glob>',
+    'Install into each monorepo package matching the glob (name or path)'
+  )
+  .option(
+    '-s, --skill <names>',
+    'Skill(s) to install from the source, comma-separated names or globs'
+  )
+  .option('--all', 'Install every skill in the source')
+  .option(
+    '--set <KEY=value>',
+    'Answer a variable (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option('-y, --yes', 'Accept defaults and confirm without prompting')
+  .option(
+    '--remember [level]',
+    'Save the answers for later prompts (user or workspace, default user)'
+  )
+  .option('--per-skill', 'Remember the answers for this skill only')
+  .option('--offline', 'Use cached downloads only')
   .action(async (source: string, options) => {
     await addCommand(source, {
       config: options.config,
       dryRun: options.dryRun,
+      json: options.json,
       output: options.output,
       ref: options.ref,
       agent: options.agent,
+      allAgents: options.allAgents,
+      link: options.link,
+      format: options.format,
       global: options.global,
+      package: options.package,
+      skill: options.skill,
+      all: options.all,
+      set: options.set,
+      yes: options.yes,
+      remember: options.remember === true ? 'user' : options.remember,
+      perSkill: options.perSkill,
+      offline: options.offline,
+    })
+  })
+
+program
+  .command('install')
+  .description('Install the exact skills pinned in taito.lock')
+  .option('--offline', 'Use cached downloads only')
+  .option(
+    '--set <KEY=value>',
+    'Answer a secret variable (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .action(async (options) => {
+    await installCommand({
+      offline: options.offline,
+      set: options.set,
+    })
+  })
+
+program
+  .command('sync')
+  .description('Install and update skills to match taito.toml')
+  .option('--check', 'Exit non-zero if installed skills differ from taito.toml')
+  .option('--prune', 'Remove installed skills not listed in taito.toml')
+  .option('--offline', 'Use cached downloads only')
+  .action(async (options) => {
+    await syncCommand({
+      check: options.check,
+      prune: options.prune,
+      offline: options.offline,
+    })
+  })
+
+program
+  .command('update [names...]')
+  .description('Update installed skills from their sources')
+  .option('-d, --dry-run', 'Show what would change without writing files')
+  .option('--json', 'Print the dry run as JSON')
+  .option('--offline', 'Use cached downloads only')
+  .action(async (names: string[], options) => {
+    await updateCommand(names, {
+      dryRun: options.dryRun,
+      json: options.json,
+      offline: options.offline,
+    })
+  })
+
+program
+  .command('reconfigure <name>')
+  .description('Change the answers of an installed customizable skill')
+  .option('-d, --dry-run', 'Show what would change without writing files')
+  .option('--json', 'Print the dry run as JSON')
+  .option('-a, --agent <agent>', 'Reconfigure the installation of this agent')
+  .option(
+    '--set <KEY=value>',
+    'Answer a variable (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option(
+    '--remember [level]',
+    'Save the answers for later prompts (user or workspace, default user)'
+  )
+  .option('--per-skill', 'Remember the answers for this skill only')
+  .option('--offline', 'Use cached downloads only')
+  .action(async (name: string, options) => {
+    await reconfigureCommand(name, {
+      dryRun: options.dryRun,
+      json: options.json,
+      agent: options.agent,
+      set: options.set,
+      remember: options.remember === true ? 'user' : options.remember,
+      perSkill: options.perSkill,
+      offline: options.offline,
+    })
+  })
+
+program
+  .command('outdated')
+  .description('Compare installed skills with their upstream versions')
+  .option('--json', 'Output results as JSON')
+  .action(async (options) => {
+    await outdatedCommand({
+      json: options.json,
     })
   })
 
 program
   .command('list')
   .description('List installed skills')
+  .option('-a, --agent <agents>', 'Only list these agents, comma-separated')
+  .option('-g, --global', 'List global installations instead of local ones')
+  .option('--all-scopes', 'List local and global installations')
+  .action(async (options) => {
+    await listCommand({
+      agent: options.agent,
+      global: options.global,
+      allScopes: options.allScopes,
+    })
+  })
+
+program
+  .command('agents')
+  .description('List known agents, including those defined in agents.toml')
   .action(async () => {
-    await listCommand()
+    await agentsCommand()
   })
 
 program
-  .command('remove <name>')
+  .command('remove <names...>')
   .alias('rm')
-  .description('Remove an installed skill')
-  .action(async (name: string) => {
-    await removeCommand(name)
+  .description('Remove installed skills')
+  .option('-a, --agent <agents>', 'Only remove from these agents')
+  .option('-g, --global', 'Remove global installations instead of local ones')
+  .option('--all-scopes', 'Remove from local and global installations')
+  .action(async (names: string[], options) => {
+    await removeCommand(names, {
+      agent: options.agent,
+      global: options.global,
+      allScopes: options.allScopes,
+    })
+  })
+
+program
+  .command('adopt [dir]')
+  .description('Start managing skills that were copied into agent directories')
+  .option('-s, --source <source>', 'Source to record for the adopted skills')
+  .option('-r, --ref <ref>', 'Git ref or version range to record')
+  .option('-a, --agent <agents>', 'Only scan these agents, comma-separated')
+  .option('-g, --global', 'Scan global skills directories')
+  .option('--offline', 'Use cached downloads only')
+  .action(async (dir: string | undefined, options) => {
+    await adoptCommand(dir, {
+      source: options.source,
+      ref: options.ref,
+      agent: options.agent,
+      global: options.global,
+      offline: options.offline,
+    })
+  })
+
+program
+  .command('doctor')
+  .description('Diagnose workspace detection and installed skill metadata')
+  .option('--fix', 'Repair problems that can be fixed automatically')
+  .action(async (options) => {
+    await doctorCommand({ fix: options.fix })
+  })
+
+const cache = program
+  .command('cache')
+  .description('Manage the local download cache')
+
+cache
+  .command('ls')
+  .description('List cached repository snapshots')
+  .action(async () => {
+    await cacheListCommand()
+  })
+
+cache
+  .command('clean [repo]')
+  .description('Remove cached snapshots (optionally only for owner/repo)')
+  .action(async (repo: string | undefined) => {
+    await cacheCleanCommand(repo)
+  })
+
+const answers = program
+  .command('answers')
+  .description('Manage remembered answers (see add --remember)')
+
+answers
+  .command('list')
+  .description('List remembered answers')
+  .option('--level <level>', 'Only the user or workspace level')
+  .option('-s, --skill <name>', 'Only answers remembered for this skill')
+  .action(async (options) => {
+    await answersListCommand({ level: options.level, skill: options.skill })
+  })
+
+answers
+  .command('forget [names...]')
+  .description('Forget remembered answers to the named variables')
+  .option('--level <level>', 'Only the user or workspace level')
+  .option('-s, --skill <name>', 'Only answers remembered for this skill')
+  .option('--all', 'Forget every answer')
+  .action(async (names: string[], options) => {
+    await answersForgetCommand(names, {
+      level: options.level,
+      skill: options.skill,
+      all: options.all,
+    })
+  })
+
+answers
+  .command('export')
+  .description('Print remembered answers as a preset file (TOML)')
+  .option('--level <level>', 'Only the user or workspace level')
+  .option('-s, --skill <name>', 'Include the answers remembered for this skill')
+  .action(async (options) => {
+    await answersExportCommand({ level: options.level, skill: options.skill })
   })
 
 program
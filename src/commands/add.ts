@@ -1,40 +1,88 @@
-import {
-  cpSync,
-  existsSync,
-  mkdirSync,
-  readdirSync,
-  readFileSync,
-  statSync,
-} from 'node:fs'
-import { basename, join, resolve } from 'node:path'
+import { existsSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { basename, isAbsolute, join, relative, resolve } from 'node:path'
 import * as p from '@clack/prompts'
+import {
+  getAgentOutputPath,
+  isOutputFormat,
+  outputFormats,
+  removeAgentOutput,
+  writeAgentOutput,
+} from '../lib/adapters.js'
+import { answerLevels, isAnswerLevel, rememberAnswers } from '../lib/answers.js'
+import { lockWorkspace, replaceDir } from '../lib/atomic.js'
 import {
   getDefaultValues,
+  getSuppliedAnswers,
+  getUnansweredVariables,
+  omitSecrets,
+  parseAnswerAssignments,
   parsePresetConfig,
   parseSkillConfig,
 } from '../lib/config.js'
-import { discoverSkills } from '../lib/discovery.js'
+import { compareOutput, diffChanges } from '../lib/diff.js'
+import {
+  discoverSkills,
+  extractSkillName,
+  getSkillVersion,
+} from '../lib/discovery.js'
 import {
-  cleanupTempDir,
-  fetchFromGitHub,
-  parseSkillSource,
-} from '../lib/github.js'
-import { recordInstalledSkill } from '../lib/metadata.js'
+  captureLocalEdits,
+  findLocalEdits,
+  restoreLocalEdits,
+  saveBaseSnapshot,
+  type LocalEdit,
+} from '../lib/edits.js'
+import { fingerprintFiles, hashFiles } from '../lib/hash.js'
+import { printChanges } from '../lib/install.js'
+import { linkSkillDir } from '../lib/links.js'
+import { recordLockedSkill } from '../lib/lockfile.js'
+import { getInstalledSkill, recordInstalledSkill } from '../lib/metadata.js'
+import { matchWorkspacePackages } from '../lib/monorepo.js'
 import {
-  agentConfigs,
   detectAllAgents,
+  findMonorepoRoot,
   findWorkspaceRoot,
+  getAgentConfig,
+  getAgentRegistry,
+  getBaseSnapshotDir,
+  getOutputBaseSnapshotDir,
   getSkillConfigPath,
   getSkillOutputDir,
+  getSkillsDir,
+  getSkillStoreDir,
+  getStoreBaseSnapshotDir,
   isCustomizableSkill,
+  resolveAgentType,
   type AgentType,
 } from '../lib/paths.js'
-import { clearVariableCache, promptForVariables } from '../lib/prompts.js'
-import { renderSkill } from '../lib/render.js'
-import type { AddOptions, DiscoveredSkill } from '../types.js'
+import {
+  clearVariableCache,
+  isInteractive,
+  promptForEditResolution,
+  promptForVariables,
+} from '../lib/prompts.js'
+import { parseSkillSource } from '../lib/providers.js'
+import { copyStandardSkill, renderSkill } from '../lib/render.js'
+import { fetchSource, getPortableSource, getSkillPath } from '../lib/source.js'
+import {
+  AnswersValidationError,
+  INVALID_ANSWERS_EXIT_CODE,
+  validateAnswers,
+} from '../lib/validation.js'
+import type {
+  AddOptions,
+  DiscoveredSkill,
+  EditResolution,
+  FetchedSource,
+  OutputFormat,
+  SkillPreview,
+  SkillSource,
+  VariableValues,
+} from '../types.js'
 
 /**
- * Add/install a skill from GitHub or local path
+ * Add/install a skill from GitHub, a git remote, or local path
  */
 export async function addCommand(
   source: string,
@@ -45,162 +93,286 @@ export async function addCommand(
   // Clear variable cache at start of command
   clearVariableCache()
 
+  if (options.json && !options.dryRun) {
+    p.log.error('--json can only be used with --dry-run')
+    process.exit(1)
+  }
+
+  // JSON output can't be mixed with prompts, so defaults are accepted as
+  // with --yes
+  if (options.json) {
+    options = { ...options, yes: true }
+  }
+
+  if (options.link && !['symlink', 'copy'].includes(options.link)) {
+    p.log.error(`Invalid link mode: ${options.link}. Use symlink or copy.`)
+    process.exit(1)
+  }
+
+  if (options.format && !isOutputFormat(options.format)) {
+    p.log.error(
+      `Invalid format: ${options.format}. Use ${outputFormats.join(', ')}.`
+    )
+    process.exit(1)
+  }
+
+  if (
+    options.format &&
+    options.format !== 'skill' &&
+    (options.global || options.output)
+  ) {
+    p.log.error('--format cannot be combined with --global or --output')
+    process.exit(1)
+  }
+
+  if (options.package && (options.global || options.output)) {
+    p.log.error('--package cannot be combined with --global or --output')
+    process.exit(1)
+  }
+
+  if (options.remember && !isAnswerLevel(options.remember)) {
+    p.log.error(
+      `Invalid answer level: ${options.remember}. Use ${answerLevels.join(' or ')}.`
+    )
+    process.exit(1)
+  }
+
+  if (options.perSkill && !options.remember) {
+    p.log.error('--per-skill can only be used with --remember')
+    process.exit(1)
+  }
+
+  if (options.skill && options.all) {
+    p.log.error('--skill cannot be combined with --all')
+    process.exit(1)
+  }
+
+  let assignments: Record<string, string>
   try {
-    // Parse source
-    const skillSource = parseSkillSource(source, options.ref)
+    assignments = parseAnswerAssignments(options.set ?? [])
+  } catch (error) {
+    p.log.error((error as Error).message)
+    process.exit(1)
+  }
 
-    let repoDir: string
-    let shouldCleanup = false
+  let skillSource: SkillSource
+  try {
+    skillSource = parseSkillSource(source, options.ref)
+  } catch (error) {
+    // Reported here since the spinner is not running
+    p.log.error((error as Error).message)
+    process.exit(1)
+  }
 
-    if (skillSource.type === 'github') {
+  try {
+    if (skillSource.type !== 'local' && !options.json) {
       spinner.start(`Fetching ${source}...`)
-      repoDir = await fetchFromGitHub(skillSource)
-      shouldCleanup = true
+    }
+
+    const fetched = await fetchSource(source, options.ref, undefined, {
+      offline: options.offline,
+    })
+    const { repoDir } = fetched
+
+    if (skillSource.type !== 'local' && !options.json) {
       spinner.stop(`Fetched ${source}`)
-    } else {
-      repoDir = resolve(skillSource.path!)
-      if (!existsSync(repoDir)) {
-        p.log.error(`Local path not found: ${repoDir}`)
+    }
+
+    // Discover all skills in the repository
+    let discoveredSkills = discoverSkills(repoDir)
+
+    if (discoveredSkills.length === 0) {
+      p.log.error('No skills found in repository')
+      p.log.message('A skill is a directory containing a SKILL.md file.')
+      process.exit(1)
+    }
+
+    // If a specific skill path was requested, filter to that skill
+    if (skillSource.skillPath) {
+      const requestedPath = skillSource.skillPath
+      const matchedSkill = discoveredSkills.find((skill) => {
+        // Get the relative path from repo root
+        const relativePath = skill.path.replace(repoDir + '/', '')
+        return (
+          relativePath === requestedPath ||
+          relativePath.endsWith('/' + requestedPath) ||
+          skill.dirName === requestedPath.split('/').pop()
+        )
+      })
+
+      if (!matchedSkill) {
+        p.log.error(`Skill not found at path: ${requestedPath}`)
+        p.log.message('Available skills in this repository:')
+        for (const skill of discoveredSkills) {
+          const relativePath = skill.path.replace(repoDir + '/', '')
+          p.log.message(`  - ${relativePath}`)
+        }
         process.exit(1)
       }
+
+      discoveredSkills = [matchedSkill]
     }
 
-    try {
-      // Discover all skills in the repository
-      let discoveredSkills = discoverSkills(repoDir)
+    // Select which skills to install
+    let skillsToInstall: DiscoveredSkill[]
 
-      if (discoveredSkills.length === 0) {
-        p.log.error('No skills found in repository')
-        p.log.message('A skill is a directory containing a SKILL.md file.')
+    if (options.all) {
+      skillsToInstall = discoveredSkills
+    } else if (options.skill) {
+      skillsToInstall = matchSkills(discoveredSkills, options.skill, repoDir)
+
+      if (skillsToInstall.length === 0) {
+        p.log.error(`No skills match ${options.skill}`)
+        p.log.message(
+          `Available skills: ${discoveredSkills.map((s) => s.dirName).join(', ')}`
+        )
         process.exit(1)
       }
+    } else if (discoveredSkills.length === 1) {
+      // Single skill - install directly
+      skillsToInstall = discoveredSkills
+    } else if (options.yes || !isInteractive()) {
+      p.log.error(
+        `Multiple skills found: ${discoveredSkills.map((s) => s.dirName).join(', ')}`
+      )
+      p.log.message(
+        'Choose with --skill <name|glob> or install all with --all.'
+      )
+      process.exit(1)
+    } else {
+      // Multiple skills - prompt user to select
+      const selected = await p.multiselect({
+        message: 'Select skills to install:',
+        options: discoveredSkills.map((s) => ({
+          value: s,
+          label: s.dirName,
+          hint: s.isCustomizable ? 'customizable' : undefined,
+        })),
+        required: true,
+      })
 
-      // If a specific skill path was requested, filter to that skill
-      if (skillSource.skillPath) {
-        const requestedPath = skillSource.skillPath
-        const matchedSkill = discoveredSkills.find((skill) => {
-          // Get the relative path from repo root
-          const relativePath = skill.path.replace(repoDir + '/', '')
-          return (
-            relativePath === requestedPath ||
-            relativePath.endsWith('/' + requestedPath) ||
-            skill.dirName === requestedPath.split('/').pop()
-          )
-        })
-
-        if (!matchedSkill) {
-          p.log.error(`Skill not found at path: ${requestedPath}`)
-          p.log.message('Available skills in this repository:')
-          for (const skill of discoveredSkills) {
-            const relativePath = skill.path.replace(repoDir + '/', '')
-            p.log.message(`  - ${relativePath}`)
-          }
-          process.exit(1)
-        }
-
-        discoveredSkills = [matchedSkill]
+      if (p.isCancel(selected)) {
+        p.cancel('Installation cancelled.')
+        process.exit(0)
       }
 
-      // Detect or select agent
-      const workspaceRoot = findWorkspaceRoot()
-      let agent: AgentType | undefined
+      skillsToInstall = selected as DiscoveredSkill[]
+    }
+
+    // --set answers no selected skill declares are most likely typos
+    const declared = skillsToInstall
+      .filter((skill) => skill.isCustomizable)
+      .flatMap((skill) =>
+        Object.keys(parseSkillConfig(getSkillConfigPath(skill.path)).variables)
+      )
+    const unknown = Object.keys(assignments).filter(
+      (key) => !declared.includes(key)
+    )
+    if (unknown.length > 0) {
+      p.log.error(
+        `Unknown variables in --set: ${unknown.join(', ')}. Declared: ${declared.join(', ') || 'none'}`
+      )
+      process.exit(INVALID_ANSWERS_EXIT_CODE)
+    }
+
+    // What each install would change, for --json
+    const previews: SkillPreview[] = []
 
-      if (options.agent) {
-        // Find agent case-insensitively
-        const normalizedInput = options.agent.toLowerCase()
+    // Each matched package is a workspace root of its own
+    let workspaceRoots = [
+      options.package ? findMonorepoRoot() : findWorkspaceRoot(),
+    ]
 
-        const matchedAgent = Object.keys(agentConfigs).find(
-          (key) => key.toLowerCase() === normalizedInput
-        ) as AgentType | undefined
+    if (options.package) {
+      const packages = matchWorkspacePackages(
+        options.package,
+        workspaceRoots[0]
+      )
 
-        if (!matchedAgent) {
-          p.log.error(`Unknown agent: ${options.agent}`)
-          p.log.message(
-            `Available agents: ${Object.keys(agentConfigs).join(', ')}`
-          )
-          process.exit(1)
-        }
-        agent = matchedAgent
-      } else if (!options.output) {
-        // Auto-detect agent if no custom output specified
-        const detectedAgents = detectAllAgents(workspaceRoot)
-
-        if (detectedAgents.length === 0) {
-          p.log.warn('No agent detected in workspace. Defaulting to Cursor.')
-          agent = 'cursor'
-        } else if (detectedAgents.length === 1) {
-          agent = detectedAgents[0]
-          p.log.info(`Detected agent: ${agentConfigs[agent].name}`)
-        } else {
-          // Multiple agents detected - ask user
-          p.log.info(
-            `Multiple agents detected: ${detectedAgents
-              .map((a) => agentConfigs[a].name)
-              .join(', ')}`
-          )
+      if (packages.length === 0) {
+        p.log.error(`No workspace packages match ${options.package}`)
+        p.log.message(`Monorepo root: ${workspaceRoots[0]}`)
+        process.exit(1)
+      }
 
-          const selected = await p.select({
-            message: 'Which agent do you want to install the skill for?',
-            options: detectedAgents.map((a) => ({
-              value: a,
-              label: agentConfigs[a].name,
-            })),
-          })
-
-          if (p.isCancel(selected)) {
-            p.cancel('Installation cancelled.')
-            process.exit(0)
-          }
+      workspaceRoots = packages.map((pkg) => pkg.dir)
+      if (!options.json) {
+        p.log.info(
+          `Installing into ${packages.length} package${packages.length > 1 ? 's' : ''}: ${packages.map((pkg) => pkg.name).join(', ')}`
+        )
+      }
+    }
 
-          agent = selected as AgentType
-        }
+    for (const workspaceRoot of workspaceRoots) {
+      if (options.package && !options.json) {
+        p.log.step(`Package: ${workspaceRoot}`)
       }
 
-      // Select which skills to install
-      let skillsToInstall: DiscoveredSkill[]
-
-      if (discoveredSkills.length === 1) {
-        // Single skill - install directly
-        skillsToInstall = discoveredSkills
-      } else {
-        // Multiple skills - prompt user to select
-        const selected = await p.multiselect({
-          message: 'Select skills to install:',
-          options: discoveredSkills.map((s) => ({
-            value: s,
-            label: s.dirName,
-            hint: s.isCustomizable ? 'customizable' : undefined,
-          })),
-          required: true,
-        })
-
-        if (p.isCancel(selected)) {
-          p.cancel('Installation cancelled.')
-          process.exit(0)
+      if (!options.dryRun) {
+        try {
+          lockWorkspace(workspaceRoot)
+        } catch (error) {
+          // Reported here since the spinner is not running
+          p.log.error((error as Error).message)
+          process.exit(1)
         }
-
-        skillsToInstall = selected as DiscoveredSkill[]
       }
 
+      const agents = await selectAgents(options, workspaceRoot)
+
+      // Several local agents share one rendered copy in the store
+      const useStore =
+        !options.global &&
+        !options.output &&
+        (agents.length > 1 || options.link !== undefined)
+
       // Install each selected skill
       for (const discoveredSkill of skillsToInstall) {
-        await installSingleSkill(
+        const prepared = await prepareSkill(
           discoveredSkill.path,
-          source,
           options,
-          agent,
-          workspaceRoot,
-          spinner
+          assignments,
+          workspaceRoot
         )
+
+        if (useStore) {
+          const preview = await installLinkedSkill(
+            prepared,
+            fetched,
+            options,
+            agents as AgentType[],
+            workspaceRoot,
+            spinner
+          )
+          if (preview) {
+            previews.push(preview)
+          }
+          continue
+        }
+
+        for (const agent of agents) {
+          const preview = await installSingleSkill(
+            prepared,
+            fetched,
+            options,
+            agent,
+            workspaceRoot,
+            spinner
+          )
+          if (preview) {
+            previews.push(preview)
+          }
+        }
       }
-    } finally {
-      // Clean up temp directory if we fetched from GitHub
-      if (shouldCleanup) {
-        cleanupTempDir(repoDir)
-      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(previews, null, 2))
     }
   } catch (error) {
-    spinner.stop('Failed')
+    if (!options.json) {
+      spinner.stop('Failed')
+    }
     const err = error as Error
     p.log.error(err.message)
     process.exit(1)
@@ -208,95 +380,373 @@ export async function addCommand(
 }
 
 /**
- * Install a single skill
+ * Pick the agents to install for: --agent, the detected agents, or a
+ * choice between them
  */
-async function installSingleSkill(
-  skillDir: string,
-  source: string,
+async function selectAgents(
   options: AddOptions,
-  agent: AgentType | undefined,
-  workspaceRoot: string,
-  spinner: ReturnType<typeof p.spinner>
-): Promise<void> {
-  // Check if customizable
-  const customizable = isCustomizableSkill(skillDir)
-  let skillName: string
-  let customized = false
-  let values = {}
+  workspaceRoot: string
+): Promise<(AgentType | undefined)[]> {
+  let agents: (AgentType | undefined)[]
 
-  if (customizable) {
-    p.log.info('Customizable skill detected.')
+  if (options.agent) {
+    // Find agents case-insensitively (e.g., "cursor,ClaudeCode")
+    agents = []
+    for (const name of options.agent.split(',').map((a) => a.trim())) {
+      const matchedAgent = resolveAgentType(name, workspaceRoot)
 
-    // Parse config
-    const configPath = getSkillConfigPath(skillDir)
-    const config = parseSkillConfig(configPath)
-    // Use config.meta.name, fallback to directory name
-    skillName = config.meta.name?.trim() || basename(skillDir)
-
-    // Get values from preset config or prompt user
-    if (options.config) {
-      const presetValues = parsePresetConfig(options.config)
-      // Get defaults with interpolation, using preset values for reference
-      values = getDefaultValues(config, presetValues)
+      if (!matchedAgent) {
+        p.log.error(`Unknown agent: ${name}`)
+        p.log.message(
+          `Available agents: ${Object.keys(getAgentRegistry(workspaceRoot)).join(', ')}`
+        )
+        process.exit(1)
+      }
+      agents.push(matchedAgent)
+    }
+  } else if (options.output) {
+    // Custom output directory, no agent
+    agents = [undefined]
+  } else {
+    // Auto-detect agents if no custom output specified
+    const detectedAgents = detectAllAgents(workspaceRoot)
+
+    if (detectedAgents.length === 0) {
+      if (!options.json) {
+        p.log.warn('No agent detected in workspace. Defaulting to Cursor.')
+      }
+      agents = ['cursor']
+    } else if (
+      detectedAgents.length === 1 ||
+      options.allAgents ||
+      options.yes
+    ) {
+      agents = detectedAgents
+      if (!options.json) {
+        p.log.info(
+          `Detected agent${agents.length > 1 ? 's' : ''}: ${detectedAgents
+            .map((a) => getAgentConfig(a, workspaceRoot).name)
+            .join(', ')}`
+        )
+      }
+    } else if (!isInteractive()) {
+      p.log.error(
+        `Multiple agents detected: ${detectedAgents
+          .map((a) => getAgentConfig(a, workspaceRoot).name)
+          .join(', ')}`
+      )
+      p.log.message(
+        'Choose with --agent, or install for all of them with --all-agents or --yes.'
+      )
+      process.exit(1)
     } else {
-      values = await promptForVariables(config)
+      // Multiple agents detected - ask user
+      p.log.info(
+        `Multiple agents detected: ${detectedAgents
+          .map((a) => getAgentConfig(a, workspaceRoot).name)
+          .join(', ')}`
+      )
+
+      const selected = await p.multiselect({
+        message: 'Which agents do you want to install the skill for?',
+        options: detectedAgents.map((a) => ({
+          value: a,
+          label: getAgentConfig(a, workspaceRoot).name,
+        })),
+        initialValues: detectedAgents,
+        required: true,
+      })
+
+      if (p.isCancel(selected)) {
+        p.cancel('Installation cancelled.')
+        process.exit(0)
+      }
+
+      agents = selected as AgentType[]
     }
+  }
 
-    customized = true
-  } else {
+  // Agents that share a skills directory only need one copy
+  agents = agents.filter(
+    (agent, index) =>
+      !agent ||
+      agents.findIndex(
+        (other) =>
+          other &&
+          getSkillsDir(other, options.global, workspaceRoot) ===
+            getSkillsDir(agent, options.global, workspaceRoot)
+      ) === index
+  )
+
+  return agents
+}
+
+/**
+ * A skill ready to be written, with its name and answers resolved
+ */
+interface PreparedSkill {
+  skillDir: string
+  skillName: string
+  customized: boolean
+  values: VariableValues
+  savedValues: VariableValues // values without secrets, for metadata
+}
+
+/**
+ * Resolve a skill's name and, for customizable skills, its answers
+ * Answers are collected once per workspace, even when installing for
+ * several agents. --set wins over TAITO_VAR_<KEY>, which wins over the
+ * preset; with a preset or --yes, the rest take their defaults
+ */
+async function prepareSkill(
+  skillDir: string,
+  options: AddOptions,
+  assignments: Record<string, string>,
+  workspaceRoot: string
+): Promise<PreparedSkill> {
+  if (!isCustomizableSkill(skillDir)) {
     // Non-customizable skill - get name from SKILL.md frontmatter with fallback
-    skillName = extractSkillName(skillDir)
-    p.log.info(`Installing standard skill: ${skillName}`)
+    const skillName = extractSkillName(skillDir)
+    if (!options.json) {
+      p.log.info(`Installing standard skill: ${skillName}`)
+    }
+    return {
+      skillDir,
+      skillName,
+      customized: false,
+      values: {},
+      savedValues: {},
+    }
   }
 
+  if (!options.json) {
+    p.log.info('Customizable skill detected.')
+  }
+
+  // Parse config
+  const configPath = getSkillConfigPath(skillDir)
+  const config = parseSkillConfig(configPath)
+  // Use config.meta.name, fallback to directory name
+  const skillName = config.meta.name?.trim() || basename(skillDir)
+
+  // With --package, a package's own preset at the same relative path wins
+  const packagePreset =
+    options.config && options.package && !isAbsolute(options.config)
+      ? join(workspaceRoot, options.config)
+      : undefined
+  const presetPath =
+    packagePreset && existsSync(packagePreset) ? packagePreset : options.config
+  const supplied = getSuppliedAnswers(config, assignments)
+  const answers = {
+    ...(presetPath ? parsePresetConfig(presetPath) : {}),
+    ...supplied,
+  }
+
+  // Get values from the answers and defaults, or prompt user for the rest
+  let values: VariableValues
+  if (presetPath || options.yes) {
+    // Get defaults with interpolation, using answers for reference
+    values = getDefaultValues(config, answers)
+  } else {
+    const missing = getUnansweredVariables(config, answers)
+    if (missing.length > 0 && !isInteractive()) {
+      p.log.error(`Missing answers for ${skillName}: ${missing.join(', ')}`)
+      p.log.message(
+        'Supply them with --set KEY=value or TAITO_VAR_<KEY>, or pass --yes to use the defaults.'
+      )
+      process.exit(1)
+    }
+    values = await promptForVariables(config, answers)
+  }
+
+  // Prompted answers are checked as they are typed, the rest here
+  if (presetPath || options.yes || Object.keys(supplied).length > 0) {
+    const problems = validateAnswers(config, answers, values, workspaceRoot)
+    if (problems.length > 0) {
+      const source =
+        [
+          presetPath,
+          Object.keys(supplied).length > 0 ? '--set or TAITO_VAR_*' : undefined,
+        ]
+          .filter(Boolean)
+          .join(', ') || `the defaults of ${skillName}`
+      // Reported here since the spinner is not running
+      p.log.error(new AnswersValidationError(problems, source).message)
+      process.exit(INVALID_ANSWERS_EXIT_CODE)
+    }
+  }
+
+  if (options.remember && !options.dryRun) {
+    rememberAnswers(
+      config,
+      values,
+      options.remember,
+      !!options.perSkill,
+      workspaceRoot
+    )
+  }
+
+  return {
+    skillDir,
+    skillName,
+    customized: true,
+    values,
+    savedValues: omitSecrets(config, values),
+  }
+}
+
+/**
+ * Install a single skill
+ */
+async function installSingleSkill(
+  { skillDir, skillName, customized, values, savedValues }: PreparedSkill,
+  fetched: FetchedSource,
+  options: AddOptions,
+  agent: AgentType | undefined,
+  workspaceRoot: string,
+  spinner: ReturnType<typeof p.spinner>
+): Promise<SkillPreview | undefined> {
   // Determine output directory
   const outputDir = options.output
     ? resolve(options.output)
     : getSkillOutputDir(skillName, agent, options.global, workspaceRoot)
 
+  const baseDir = options.output
+    ? getOutputBaseSnapshotDir(outputDir)
+    : getBaseSnapshotDir(skillName, agent, options.global, workspaceRoot)
+  const format =
+    agent && !options.output && !options.global
+      ? getOutputFormat(agent, options, workspaceRoot)
+      : undefined
+  let edits: LocalEdit[] = []
+  let resolution: EditResolution = 'upstream'
+  let previousFormat: OutputFormat | undefined
+
   // Check if already installed
   if (existsSync(outputDir) && !options.dryRun) {
-    const overwrite = await p.confirm({
-      message: `Skill '${skillName}' already exists. Overwrite?`,
-      initialValue: false,
-    })
-
-    if (p.isCancel(overwrite) || !overwrite) {
+    if (!(await confirmOverwrite(skillName, options))) {
       p.log.info(`Skipping installation of '${skillName}'.`)
       return
     }
+
+    // Protect files that were edited since taito wrote them
+    const previous = getInstalledSkill(
+      skillName,
+      agent,
+      options.global,
+      workspaceRoot
+    )
+    const edited = findLocalEdits(outputDir, previous?.files)
+    if (edited.length > 0) {
+      resolution = await resolveLocalEdits(skillName, edited, options)
+      edits = captureLocalEdits(outputDir, baseDir, edited)
+    }
+
+    previousFormat = previous?.format
   }
 
-  // Render or copy skill
-  spinner.start(`Installing ${skillName}...`)
+  const nativePath =
+    format && getAgentOutputPath(format, skillName, workspaceRoot)
+  const agentName = agent
+    ? getAgentConfig(agent, workspaceRoot).name
+    : 'default location'
+  const globalLabel = options.global ? ' (global)' : ''
 
-  let files: string[]
-  if (customizable) {
-    files = await renderSkill(skillDir, outputDir, values, options.dryRun)
-  } else {
-    files = copyStandardSkill(skillDir, outputDir, options.dryRun)
+  const render = async (dir: string) =>
+    customized
+      ? await renderSkill(skillDir, dir, values)
+      : copyStandardSkill(skillDir, dir)
+
+  if (options.dryRun) {
+    const preview = await previewInstall(
+      `${skillName} (${agentName}${globalLabel})`,
+      { name: skillName, agents: agent ? [agent] : [], directory: outputDir },
+      render,
+      options,
+      spinner
+    )
+    if (nativePath && !options.json) {
+      p.log.message(`Would write: ${nativePath}`)
+    }
+    return preview
   }
 
-  spinner.stop(`${skillName} installed!`)
+  // Record in metadata once the new version is in place
+  const record = (files: string[]) => {
+    // Hash the rendered output before local edits are re-applied
+    const fingerprints = fingerprintFiles(outputDir, files)
+    const integrity = hashFiles(outputDir, files)
+    saveBaseSnapshot(outputDir, files, baseDir)
+
+    const conflicted = restoreLocalEdits(outputDir, edits, resolution)
+    for (const file of conflicted) {
+      p.log.warn(`Merge conflicts in ${file}. Resolve the conflict markers.`)
+    }
+
+    if (previousFormat && previousFormat !== format) {
+      removeAgentOutput(previousFormat, skillName, workspaceRoot)
+    }
+    if (format) {
+      writeAgentOutput(format, skillName, outputDir, workspaceRoot)
+    }
+
+    const installed = {
+      name: skillName,
+      source: getPortableSource(fetched, workspaceRoot, options.global),
+      ref: fetched.skillSource.ref,
+      tag: fetched.tag,
+      commit: fetched.commit,
+      skillPath: getSkillPath(fetched, skillDir),
+      version: getSkillVersion(skillDir),
+      ...(nativePath ? { format } : {}),
+    }
+    const output = options.output
+      ? options.global
+        ? outputDir
+        : relative(workspaceRoot, outputDir)
+      : undefined
 
-  // Record in metadata
-  if (!options.dryRun) {
     recordInstalledSkill(
-      skillName,
-      source,
-      customized,
-      customized ? values : undefined,
+      {
+        ...installed,
+        ...(output ? { output } : {}),
+        customized,
+        variables: customized ? savedValues : undefined,
+        files: fingerprints,
+      },
       agent,
       options.global,
       workspaceRoot
     )
+
+    // Global installs are per-user, so they are not pinned in the lockfile
+    if (!options.global) {
+      recordLockedSkill(
+        {
+          ...installed,
+          ...(output ? { output } : { agent }),
+          customized,
+          ...(customized ? { variables: savedValues } : {}),
+          integrity,
+        },
+        workspaceRoot
+      )
+    }
   }
 
+  // Render next to the installed copy and swap it in, so a failure leaves
+  // the previous version in place. A link to the store is replaced rather
+  // than written through
+  spinner.start(`Installing ${skillName}...`)
+  const files = await replaceDir(outputDir, render, record)
+  spinner.stop(`${skillName} installed!`)
+
   // Show results
-  const agentName = agent ? agentConfigs[agent].name : 'default location'
-  const globalLabel = options.global ? ' (global)' : ''
   p.log.success(`Installed ${skillName} to ${outputDir}`)
   p.log.message(`Agent: ${agentName}${globalLabel}`)
+  if (nativePath) {
+    p.log.message(`Also written to ${nativePath}`)
+  }
   for (const file of files.slice(0, 10)) {
     p.log.message(`  ${file}`)
   }
@@ -306,94 +756,307 @@ async function installSingleSkill(
 }
 
 /**
- * Extract skill name from SKILL.md frontmatter with directory name fallback
- * Priority: frontmatter name → directory name
+ * Install a skill for several agents from one canonical copy
+ * The skill is rendered once into the store and each agent's skills
+ * directory links to it (or receives a copy)
  */
-function extractSkillName(skillDir: string): string {
-  const skillMdPath = join(skillDir, 'SKILL.md')
+async function installLinkedSkill(
+  { skillDir, skillName, customized, values, savedValues }: PreparedSkill,
+  fetched: FetchedSource,
+  options: AddOptions,
+  agents: AgentType[],
+  workspaceRoot: string,
+  spinner: ReturnType<typeof p.spinner>
+): Promise<SkillPreview | undefined> {
+  const storeDir = getSkillStoreDir(skillName, workspaceRoot)
+  const baseDir = getStoreBaseSnapshotDir(skillName, workspaceRoot)
+  const agentDirs = agents.map((agent) =>
+    getSkillOutputDir(skillName, agent, false, workspaceRoot)
+  )
+  const agentNames = agents
+    .map((agent) => getAgentConfig(agent, workspaceRoot).name)
+    .join(', ')
+  let edits: LocalEdit[] = []
+  let resolution: EditResolution = 'upstream'
 
-  if (!existsSync(skillMdPath)) {
-    // Fallback to directory name if no SKILL.md
-    return basename(skillDir)
-  }
+  // Check if already installed for any of the agents
+  if (
+    [storeDir, ...agentDirs].some((dir) => existsSync(dir)) &&
+    !options.dryRun
+  ) {
+    if (!(await confirmOverwrite(skillName, options))) {
+      p.log.info(`Skipping installation of '${skillName}'.`)
+      return
+    }
 
-  const content = readFileSync(skillMdPath, 'utf-8')
+    // Protect files that were edited since taito wrote them, in the store
+    // or in the first agent's own copy
+    const previousAgent = agents.find((agent) =>
+      getInstalledSkill(skillName, agent, false, workspaceRoot)
+    )
+    if (previousAgent) {
+      const previous = getInstalledSkill(
+        skillName,
+        previousAgent,
+        false,
+        workspaceRoot
+      )!
+      const previousDir = previous.store
+        ? resolve(workspaceRoot, previous.store)
+        : getSkillOutputDir(skillName, previousAgent, false, workspaceRoot)
+      const previousBaseDir = previous.store
+        ? baseDir
+        : getBaseSnapshotDir(skillName, previousAgent, false, workspaceRoot)
 
-  // Parse YAML frontmatter
-  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-  if (!frontmatterMatch) {
-    return basename(skillDir) // Fallback
+      const edited = findLocalEdits(previousDir, previous.files)
+      if (edited.length > 0) {
+        resolution = await resolveLocalEdits(skillName, edited, options)
+        edits = captureLocalEdits(previousDir, previousBaseDir, edited)
+      }
+    }
   }
 
-  const nameMatch = frontmatterMatch[1].match(/^name:\s*(.+)$/m)
-  if (!nameMatch) {
-    return basename(skillDir) // Fallback
-  }
+  const formats = agents.map((agent) =>
+    getOutputFormat(agent, options, workspaceRoot)
+  )
+  // Native outputs written by the previous install, replaced once the new
+  // version is in place
+  const previousFormats = agents.map(
+    (agent) => getInstalledSkill(skillName, agent, false, workspaceRoot)?.format
+  )
+  const nativePaths = formats.map(
+    (format) => format && getAgentOutputPath(format, skillName, workspaceRoot)
+  )
 
-  return nameMatch[1].trim()
-}
+  const render = async (dir: string) =>
+    customized
+      ? await renderSkill(skillDir, dir, values)
+      : copyStandardSkill(skillDir, dir)
 
-/**
- * Copy a standard (non-customizable) skill to output directory
- */
-function copyStandardSkill(
-  skillDir: string,
-  outputDir: string,
-  dryRun: boolean = false
-): string[] {
-  const files: string[] = []
+  if (options.dryRun) {
+    const preview = await previewInstall(
+      `${skillName} (${agentNames})`,
+      { name: skillName, agents, directory: storeDir },
+      render,
+      options,
+      spinner
+    )
+    if (options.json) {
+      return preview
+    }
+
+    for (const agentDir of agentDirs) {
+      p.log.message(`Would link: ${agentDir} → ${storeDir}`)
+    }
+    for (const nativePath of new Set(nativePaths.filter(Boolean))) {
+      p.log.message(`Would write: ${nativePath}`)
+    }
+    return preview
+  }
 
-  // Files/directories to copy
-  const toCopy = ['SKILL.md', 'scripts', 'references', 'assets', 'rules']
+  // Link the agents and record metadata once the new version is in place
+  const record = (files: string[]) => {
+    // Hash the rendered output before local edits are re-applied
+    const fingerprints = fingerprintFiles(storeDir, files)
+    const integrity = hashFiles(storeDir, files)
+    saveBaseSnapshot(storeDir, files, baseDir)
 
-  for (const item of toCopy) {
-    const srcPath = join(skillDir, item)
+    const conflicted = restoreLocalEdits(storeDir, edits, resolution)
+    for (const file of conflicted) {
+      p.log.warn(`Merge conflicts in ${file}. Resolve the conflict markers.`)
+    }
 
-    if (!existsSync(srcPath)) {
-      continue
+    const installed = {
+      name: skillName,
+      source: getPortableSource(fetched, workspaceRoot),
+      ref: fetched.skillSource.ref,
+      tag: fetched.tag,
+      commit: fetched.commit,
+      skillPath: getSkillPath(fetched, skillDir),
+      version: getSkillVersion(skillDir),
+      store: relative(workspaceRoot, storeDir),
     }
 
-    const destPath = join(outputDir, item)
+    for (const [index, agent] of agents.entries()) {
+      const link = linkSkillDir(
+        storeDir,
+        agentDirs[index],
+        options.link ?? 'symlink'
+      )
 
-    if (dryRun) {
-      console.log(`Would copy: ${item}`)
-      files.push(item)
-    } else {
-      mkdirSync(outputDir, { recursive: true })
-
-      const stat = statSync(srcPath)
-      if (stat.isDirectory()) {
-        cpSync(srcPath, destPath, { recursive: true })
-        // List files in directory
-        const dirFiles = listFilesRecursive(destPath, outputDir)
-        files.push(...dirFiles)
-      } else {
-        cpSync(srcPath, destPath)
-        files.push(item)
+      const format = formats[index]
+      const previousFormat = previousFormats[index]
+      if (previousFormat && previousFormat !== format) {
+        removeAgentOutput(previousFormat, skillName, workspaceRoot)
+      }
+      if (format) {
+        writeAgentOutput(format, skillName, agentDirs[index], workspaceRoot)
       }
+
+      // The agent's own merge base is replaced by the store's
+      rmSync(getBaseSnapshotDir(skillName, agent, false, workspaceRoot), {
+        recursive: true,
+        force: true,
+      })
+
+      recordInstalledSkill(
+        {
+          ...installed,
+          link,
+          ...(nativePaths[index] ? { format } : {}),
+          customized,
+          variables: customized ? savedValues : undefined,
+          files: fingerprints,
+        },
+        agent,
+        false,
+        workspaceRoot
+      )
+
+      recordLockedSkill(
+        {
+          ...installed,
+          link,
+          ...(nativePaths[index] ? { format } : {}),
+          agent,
+          customized,
+          ...(customized ? { variables: savedValues } : {}),
+          integrity,
+        },
+        workspaceRoot
+      )
     }
   }
 
-  return files
+  // Render next to the store copy and swap it in, so a failure leaves the
+  // previous version in place
+  spinner.start(`Installing ${skillName}...`)
+  const files = await replaceDir(storeDir, render, record)
+
+  spinner.stop(`${skillName} installed!`)
+
+  // Show results
+  p.log.success(`Installed ${skillName} to ${storeDir}`)
+  p.log.message(`Agents: ${agentNames}`)
+  for (const nativePath of new Set(nativePaths.filter(Boolean))) {
+    p.log.message(`Also written to ${nativePath}`)
+  }
+  for (const file of files.slice(0, 10)) {
+    p.log.message(`  ${file}`)
+  }
+  if (files.length > 10) {
+    p.log.message(`  ... and ${files.length - 10} more files`)
+  }
 }
 
 /**
- * List files recursively relative to a base path
+ * Show what installing would change in a directory, with a diff of every
+ * file, without writing anything
+ * Returns the preview for --json, which prints nothing here
  */
-function listFilesRecursive(dir: string, basePath: string): string[] {
-  const files: string[] = []
-  const entries = readdirSync(dir)
+async function previewInstall(
+  title: string,
+  target: Omit<SkillPreview, 'files'>,
+  render: (dir: string) => Promise<string[]>,
+  options: AddOptions,
+  spinner: ReturnType<typeof p.spinner>
+): Promise<SkillPreview> {
+  const previewDir = mkdtempSync(join(tmpdir(), 'taito-preview-'))
 
-  for (const entry of entries) {
-    const fullPath = join(dir, entry)
-    const stat = statSync(fullPath)
+  try {
+    if (!options.json) {
+      spinner.start(`Rendering ${title}...`)
+    }
+    const files = await render(previewDir)
+    if (!options.json) {
+      spinner.stop(`Rendered ${title}`)
+    }
 
-    if (stat.isDirectory()) {
-      files.push(...listFilesRecursive(fullPath, basePath))
-    } else {
-      files.push(fullPath.replace(basePath + '/', ''))
+    const changes = compareOutput(target.directory, previewDir, files)
+    const diffs = diffChanges(target.directory, previewDir, changes)
+    if (!options.json) {
+      printChanges(title, diffs)
     }
+    return { ...target, files: diffs }
+  } finally {
+    rmSync(previewDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Ask whether to replace an installed skill; --yes always does
+ * Without a terminal to ask in, the install fails instead
+ */
+async function confirmOverwrite(
+  skillName: string,
+  options: AddOptions
+): Promise<boolean> {
+  if (options.yes) {
+    return true
+  }
+
+  if (!isInteractive()) {
+    // Reported here since the spinner is not running
+    p.log.error(
+      `Skill '${skillName}' already exists. Pass --yes to overwrite it.`
+    )
+    process.exit(1)
+  }
+
+  const overwrite = await p.confirm({
+    message: `Skill '${skillName}' already exists. Overwrite?`,
+    initialValue: false,
+  })
+
+  return !p.isCancel(overwrite) && overwrite
+}
+
+/**
+ * Decide how to handle local edits; --yes merges them
+ */
+async function resolveLocalEdits(
+  skillName: string,
+  files: string[],
+  options: AddOptions
+): Promise<EditResolution> {
+  if (!options.yes) {
+    return promptForEditResolution(skillName, files)
   }
 
-  return files
+  p.log.warn(`Merging local edits to '${skillName}': ${files.join(', ')}`)
+  return 'merge'
+}
+
+/**
+ * Find the skills matching --skill: comma-separated names or globs,
+ * matched against directory names and paths in the repository
+ */
+function matchSkills(
+  skills: DiscoveredSkill[],
+  patterns: string,
+  repoDir: string
+): DiscoveredSkill[] {
+  const globs = patterns
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .map((pattern) => new Bun.Glob(pattern))
+
+  return skills.filter((skill) => {
+    const relativePath = relative(repoDir, skill.path)
+    return globs.some(
+      (glob) => glob.match(skill.dirName) || glob.match(relativePath)
+    )
+  })
+}
+
+/**
+ * Get the native format to write for an agent (--format wins over agents.toml)
+ */
+function getOutputFormat(
+  agent: AgentType,
+  options: AddOptions,
+  workspaceRoot: string
+): OutputFormat | undefined {
+  return options.format ?? getAgentConfig(agent, workspaceRoot).format
 }
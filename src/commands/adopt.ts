@@ -0,0 +1,298 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { basename, dirname, join, resolve } from 'node:path'
+import * as p from '@clack/prompts'
+import { lockWorkspace } from '../lib/atomic.js'
+import {
+  getDefaultValues,
+  omitSecrets,
+  parseSkillConfig,
+} from '../lib/config.js'
+import { discoverSkills, getSkillVersion } from '../lib/discovery.js'
+import { findLocalEdits, saveBaseSnapshot } from '../lib/edits.js'
+import { fingerprintFiles, hashFiles } from '../lib/hash.js'
+import { recordLockedSkill } from '../lib/lockfile.js'
+import { getInstalledSkill, recordInstalledSkill } from '../lib/metadata.js'
+import {
+  detectAllAgents,
+  findWorkspaceRoot,
+  getAgentConfig,
+  getAgentRegistry,
+  getBaseSnapshotDir,
+  getSkillConfigPath,
+  getSkillsDir,
+  isCustomizableSkill,
+  parseAgentList,
+  type AgentType,
+} from '../lib/paths.js'
+import { isInteractive, promptForVariables } from '../lib/prompts.js'
+import { copyStandardSkill, renderSkill } from '../lib/render.js'
+import {
+  fetchSource,
+  findSkillInSource,
+  getPortableSource,
+  getSkillPath,
+} from '../lib/source.js'
+import type { AdoptOptions, FetchedSource } from '../types.js'
+
+/**
+ * A skill folder in an agent's skills directory without a metadata entry
+ */
+interface UnmanagedSkill {
+  name: string
+  dir: string
+  agent: AgentType
+  global: boolean
+}
+
+/**
+ * Start managing skills that were copied into agent skill directories by
+ * hand or by other tools
+ * Each adopted skill is recorded as its source renders it, so the
+ * lockfile can reproduce it and where the copy differs shows up as local
+ * edits that updates protect
+ */
+export async function adoptCommand(
+  dir: string | undefined,
+  options: AdoptOptions
+): Promise<void> {
+  const spinner = p.spinner()
+
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    lockWorkspace(workspaceRoot)
+    const unmanaged = findUnmanagedSkills(dir, options, workspaceRoot)
+
+    if (unmanaged.length === 0) {
+      p.log.info('No unmanaged skills found.')
+      return
+    }
+
+    p.log.info(
+      `Found ${unmanaged.length} unmanaged skill${unmanaged.length > 1 ? 's' : ''}: ${unmanaged.map((s) => s.name).join(', ')}`
+    )
+
+    let adopted = 0
+
+    for (const skill of unmanaged) {
+      const agentName = getAgentConfig(skill.agent, workspaceRoot).name
+      const scopeLabel = skill.global ? ', global' : ''
+      let { source, ref } = options
+
+      if (!source) {
+        const answer = await p.text({
+          message: `Source of ${skill.name} (${agentName}${scopeLabel})? Leave empty to skip.`,
+          placeholder: 'owner/repo/path/to/skill',
+        })
+
+        if (p.isCancel(answer)) {
+          p.cancel('Adopt cancelled.')
+          process.exit(0)
+        }
+
+        if (!answer?.trim()) {
+          p.log.info(`Skipped ${skill.name}`)
+          continue
+        }
+        source = answer.trim()
+
+        const refAnswer = await p.text({
+          message: `Git ref or version range for ${skill.name}? Leave empty for the default branch.`,
+        })
+
+        if (p.isCancel(refAnswer)) {
+          p.cancel('Adopt cancelled.')
+          process.exit(0)
+        }
+        ref = refAnswer?.trim() || undefined
+      }
+
+      spinner.start(`Fetching ${source}...`)
+      let fetched: FetchedSource
+      try {
+        fetched = await fetchSource(source, ref, workspaceRoot, {
+          offline: options.offline,
+        })
+      } catch (error) {
+        spinner.stop('Failed')
+        throw error
+      }
+      spinner.stop(`Fetched ${source}`)
+
+      const edited = await adoptSkill(skill, fetched, workspaceRoot)
+      if (edited.length > 0) {
+        p.log.warn(
+          `${skill.name} differs from ${source} in ${edited.join(', ')}. The changes are kept as local edits.`
+        )
+      }
+
+      p.log.success(`Adopted ${skill.name} (${agentName}${scopeLabel})`)
+      adopted++
+    }
+
+    if (adopted > 0) {
+      p.log.message(
+        `Manage adopted skills with taito list, taito update and taito remove.`
+      )
+    }
+  } catch (error) {
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
+  }
+}
+
+/**
+ * Record an unmanaged skill as installed from a fetched source
+ * The skill is rendered from the source (customizable skills with the
+ * answers given now, or their defaults without a terminal) and that
+ * render is fingerprinted and becomes the merge base. Returns the files
+ * of the copy that differ from it
+ */
+async function adoptSkill(
+  skill: UnmanagedSkill,
+  fetched: FetchedSource,
+  workspaceRoot: string
+): Promise<string[]> {
+  const { name, dir, agent, global } = skill
+  const sourceSkillDir = findSkillInSource(
+    fetched,
+    name,
+    fetched.skillSource.skillPath
+  )
+  const customized = isCustomizableSkill(sourceSkillDir)
+  const config = customized
+    ? parseSkillConfig(getSkillConfigPath(sourceSkillDir))
+    : undefined
+
+  // The answers the copy was rendered with aren't known, so ask again
+  const values = !config
+    ? {}
+    : isInteractive()
+      ? await promptForVariables(config)
+      : getDefaultValues(config)
+
+  const stagingDir = mkdtempSync(join(tmpdir(), 'taito-adopt-'))
+
+  try {
+    const files = config
+      ? await renderSkill(sourceSkillDir, stagingDir, values)
+      : copyStandardSkill(sourceSkillDir, stagingDir)
+    const fingerprints = fingerprintFiles(stagingDir, files)
+
+    saveBaseSnapshot(
+      stagingDir,
+      files,
+      getBaseSnapshotDir(name, agent, global, workspaceRoot)
+    )
+
+    const installed = {
+      name,
+      source: getPortableSource(fetched, workspaceRoot, global),
+      ref: fetched.skillSource.ref,
+      tag: fetched.tag,
+      commit: fetched.commit,
+      skillPath: getSkillPath(fetched, sourceSkillDir),
+      version: getSkillVersion(sourceSkillDir),
+      customized,
+      variables: config ? omitSecrets(config, values) : undefined,
+    }
+
+    recordInstalledSkill(
+      { ...installed, files: fingerprints },
+      agent,
+      global,
+      workspaceRoot
+    )
+
+    // Global installs are per-user, so they are not pinned in the lockfile
+    if (!global) {
+      const { variables, ...locked } = installed
+      recordLockedSkill(
+        {
+          ...locked,
+          agent,
+          ...(customized ? { variables } : {}),
+          integrity: hashFiles(stagingDir, files),
+        },
+        workspaceRoot
+      )
+    }
+
+    return findLocalEdits(dir, fingerprints)
+  } finally {
+    rmSync(stagingDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Find skill folders without metadata entries
+ * With a directory, only that skills directory (or skill folder) is
+ * scanned. Otherwise the skills directories of the selected or detected
+ * agents are
+ */
+function findUnmanagedSkills(
+  dir: string | undefined,
+  options: AdoptOptions,
+  workspaceRoot: string
+): UnmanagedSkill[] {
+  const global = !!options.global
+  const agents = options.agent
+    ? parseAgentList(options.agent, workspaceRoot)
+    : dir
+      ? Object.keys(getAgentRegistry(workspaceRoot))
+      : detectAllAgents(workspaceRoot)
+
+  // Skills directories to scan, each with the first agent using it
+  const skillsDirs = new Map<string, { agent: AgentType; global: boolean }>()
+  for (const agent of agents) {
+    for (const scope of dir ? [false, true] : [global]) {
+      if (scope && !getAgentConfig(agent, workspaceRoot).globalPath) {
+        continue
+      }
+
+      const skillsDir = getSkillsDir(agent, scope, workspaceRoot)
+      if (!skillsDirs.has(skillsDir)) {
+        skillsDirs.set(skillsDir, { agent, global: scope })
+      }
+    }
+  }
+
+  let scanDirs = [...skillsDirs.keys()]
+
+  if (dir) {
+    const target = resolve(dir)
+    if (!existsSync(target)) {
+      throw new Error(`Directory not found: ${dir}`)
+    }
+
+    // Either a skills directory or a single skill folder inside one
+    scanDirs = scanDirs.filter(
+      (skillsDir) => skillsDir === target || skillsDir === dirname(target)
+    )
+
+    if (scanDirs.length === 0) {
+      throw new Error(
+        `${dir} is not an agent skills directory or a skill inside one`
+      )
+    }
+  }
+
+  return scanDirs.flatMap((skillsDir) => {
+    const { agent, global: scope } = skillsDirs.get(skillsDir)!
+
+    return discoverSkills(skillsDir)
+      .filter(
+        (skill) =>
+          dirname(skill.path) === skillsDir &&
+          (!dir || [skillsDir, skill.path].includes(resolve(dir))) &&
+          !getInstalledSkill(skill.dirName, agent, scope, workspaceRoot)
+      )
+      .map((skill) => ({
+        name: basename(skill.path),
+        dir: skill.path,
+        agent,
+        global: scope,
+      }))
+  })
+}
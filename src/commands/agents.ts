@@ -0,0 +1,91 @@
+import { homedir } from 'node:os'
+import * as p from '@clack/prompts'
+import {
+  detectAllAgents,
+  findWorkspaceRoot,
+  getAgentRegistry,
+  getAgentsByPriority,
+  getProjectAgentsPath,
+  getUserAgentsPath,
+} from '../lib/paths.js'
+
+/**
+ * Print the agent registry (built-ins merged with agents.toml definitions)
+ */
+export async function agentsCommand(): Promise<void> {
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    const registry = getAgentRegistry(workspaceRoot)
+    const detected = new Set(detectAllAgents(workspaceRoot))
+
+    const rows = [
+      [
+        'Agent',
+        'Name',
+        'Local path',
+        'Global path',
+        'Markers',
+        'Priority',
+        'Format',
+      ],
+      ...getAgentsByPriority(workspaceRoot).map((agent) => {
+        const config = registry[agent]
+        return [
+          detected.has(agent) ? `${agent} *` : agent,
+          config.name,
+          config.localPath,
+          config.globalPath ? shortenHome(config.globalPath) : '-',
+          config.markers?.join(', ') || '-',
+          config.priority?.toString() ?? '-',
+          config.format ?? 'skill',
+        ]
+      }),
+    ]
+
+    const widths = rows[0].map((_, i) =>
+      Math.max(...rows.map((row) => row[i].length))
+    )
+
+    const lines = rows.map((row) =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd()
+    )
+
+    p.log.message(lines.join('\n'))
+
+    if (detected.size > 0) {
+      p.log.info('* detected in this workspace')
+    }
+
+    const customized = Object.entries(registry).filter(
+      ([, config]) => config.definedIn
+    )
+    if (customized.length > 0) {
+      p.log.message(
+        customized
+          .map(
+            ([agent, config]) =>
+              `${agent}: defined in ${shortenHome(config.definedIn!)}`
+          )
+          .join('\n')
+      )
+    }
+
+    p.log.info(
+      `Define agents in ${shortenHome(getUserAgentsPath())} or ${shortenHome(getProjectAgentsPath(workspaceRoot))}`
+    )
+  } catch (error) {
+    p.log.error(error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  }
+}
+
+/**
+ * Replace the home directory with ~ for display
+ */
+function shortenHome(path: string): string {
+  const home = homedir()
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path
+}
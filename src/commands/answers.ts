@@ -0,0 +1,137 @@
+import * as p from '@clack/prompts'
+import { stringify as stringifyToml } from 'smol-toml'
+import {
+  answerLevels,
+  forgetAnswers,
+  getAnswerStorePath,
+  getRememberedAnswers,
+  isAnswerLevel,
+  readAnswerStore,
+} from '../lib/answers.js'
+import { findWorkspaceRoot } from '../lib/paths.js'
+import type { AnswerLevel, AnswersOptions, VariableValues } from '../types.js'
+
+/**
+ * List remembered answers, per store
+ */
+export async function answersListCommand(
+  options: AnswersOptions
+): Promise<void> {
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    let total = 0
+
+    for (const level of getLevels(options)) {
+      const store = readAnswerStore(level, workspaceRoot)
+      const lines = [
+        ...(options.skill ? [] : formatAnswers(store.variables)),
+        ...Object.entries(store.skills)
+          .filter(([name]) => !options.skill || name === options.skill)
+          .flatMap(([name, values]) =>
+            formatAnswers(values).map((line) => `${line} (${name})`)
+          ),
+      ]
+
+      if (lines.length === 0) {
+        continue
+      }
+
+      total += lines.length
+      p.log.info(
+        `${level === 'user' ? 'User' : 'Workspace'} answers (${getAnswerStorePath(level, workspaceRoot)}):\n${lines.join('\n')}`
+      )
+    }
+
+    if (total === 0) {
+      p.log.info('No remembered answers.')
+      p.log.message('Save answers with taito add --remember.')
+    }
+  } catch (error) {
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
+  }
+}
+
+/**
+ * Forget remembered answers by variable name, for a skill, or all of them
+ */
+export async function answersForgetCommand(
+  names: string[],
+  options: AnswersOptions
+): Promise<void> {
+  if (names.length === 0 && !options.skill && !options.all) {
+    p.log.error('Name the variables to forget, or pass --skill or --all')
+    process.exit(1)
+  }
+
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    let removed = 0
+
+    for (const level of getLevels(options)) {
+      removed += forgetAnswers(
+        level,
+        names.length > 0 ? names : undefined,
+        options.skill,
+        workspaceRoot
+      )
+    }
+
+    if (removed === 0) {
+      p.log.info('No matching answers.')
+      return
+    }
+
+    p.log.success(`Forgot ${removed} answer${removed === 1 ? '' : 's'}`)
+  } catch (error) {
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
+  }
+}
+
+/**
+ * Print remembered answers as a preset file for taito add --config
+ * With --skill, the answers that skill would be pre-filled with
+ */
+export async function answersExportCommand(
+  options: AnswersOptions
+): Promise<void> {
+  try {
+    const values = getRememberedAnswers(
+      options.skill,
+      findWorkspaceRoot(),
+      getLevels(options)
+    )
+
+    process.stdout.write(stringifyToml(values))
+  } catch (error) {
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
+  }
+}
+
+/**
+ * Get the stores a command works on: --level, or both
+ */
+function getLevels(options: AnswersOptions): AnswerLevel[] {
+  if (options.level && !isAnswerLevel(options.level)) {
+    p.log.error(
+      `Invalid answer level: ${options.level}. Use ${answerLevels.join(' or ')}.`
+    )
+    process.exit(1)
+  }
+
+  return options.level ? [options.level] : answerLevels
+}
+
+/**
+ * Format answers as KEY = value lines
+ */
+function formatAnswers(values: VariableValues): string[] {
+  return Object.entries(values).map(
+    ([key, value]) => `  ${key} = ${JSON.stringify(value)}`
+  )
+}
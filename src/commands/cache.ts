@@ -0,0 +1,72 @@
+import * as p from '@clack/prompts'
+import { cleanCache, getCacheDir, listCacheEntries } from '../lib/cache.js'
+
+/**
+ * List cached repository snapshots
+ */
+export async function cacheListCommand(): Promise<void> {
+  const entries = listCacheEntries()
+
+  if (entries.length === 0) {
+    p.log.info(`Cache is empty (${getCacheDir()})`)
+    return
+  }
+
+  const rows = [
+    ['Repository', 'Commit', 'Size', 'Cached'],
+    ...entries.map((entry) => [
+      entry.repository,
+      entry.commit.slice(0, 7),
+      formatSize(entry.size),
+      entry.cachedAt.toLocaleDateString(),
+    ]),
+  ]
+
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  )
+
+  const lines = rows.map((row) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd()
+  )
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0)
+
+  p.log.message(lines.join('\n'))
+  p.log.info(
+    `${entries.length} snapshot${entries.length > 1 ? 's' : ''}, ${formatSize(totalSize)} in ${getCacheDir()}`
+  )
+}
+
+/**
+ * Remove cached snapshots, optionally only for matching repositories
+ */
+export async function cacheCleanCommand(repository?: string): Promise<void> {
+  const removed = cleanCache(repository)
+  const target = repository ? ` for ${repository}` : ''
+
+  p.log.success(
+    `Removed ${removed} cached snapshot${removed === 1 ? '' : 's'}${target}`
+  )
+}
+
+/**
+ * Format a byte count for display (e.g., "1.2 MB")
+ */
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let size = bytes
+  let unit = 0
+
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+
+  return unit === 0
+    ? `${size} ${units[unit]}`
+    : `${size.toFixed(1)} ${units[unit]}`
+}
@@ -0,0 +1,93 @@
+import * as p from '@clack/prompts'
+import { lockWorkspace } from '../lib/atomic.js'
+import { diagnoseWorkspace, fixProblem } from '../lib/doctor.js'
+import { getAgentConfig } from '../lib/paths.js'
+import type { DoctorOptions } from '../types.js'
+
+/**
+ * Diagnose workspace detection, metadata consistency and orphaned skills
+ */
+export async function doctorCommand(
+  options: DoctorOptions = {}
+): Promise<void> {
+  try {
+    const report = diagnoseWorkspace()
+    const { workspaceRoot } = report
+    const agentName = (agent: string) =>
+      getAgentConfig(agent, workspaceRoot).name
+
+    const rootSource = report.explicitRoot
+      ? 'set with --root'
+      : report.rootMarker
+        ? `found ${report.rootMarker}`
+        : 'no marker found, using current directory'
+    p.log.info(`Workspace root: ${workspaceRoot} (${rootSource})`)
+
+    if (report.agents.length === 0) {
+      p.log.warn('No agents detected in workspace.')
+    } else {
+      p.log.info(
+        `Detected agents:\n${report.agents
+          .map(({ agent, marker }) => `  ${agentName(agent)} (${marker})`)
+          .join('\n')}`
+      )
+    }
+
+    if (report.skillsDirs.length > 0) {
+      p.log.info(
+        `Skills directories:\n${report.skillsDirs
+          .map((dir) => {
+            const scope = dir.global ? ', global' : ''
+            const status = dir.exists
+              ? `${dir.skills} skill${dir.skills === 1 ? '' : 's'}`
+              : 'missing'
+            return `  ${dir.path} (${agentName(dir.agent)}${scope}): ${status}`
+          })
+          .join('\n')}`
+      )
+    }
+
+    if (report.problems.length === 0) {
+      p.log.success('No problems found')
+      return
+    }
+
+    for (const problem of report.problems) {
+      p.log.warn(problem.message)
+    }
+
+    if (!options.fix) {
+      const fixable = report.problems.filter((problem) => problem.fixable)
+      if (fixable.length > 0) {
+        p.log.info(
+          `Run taito doctor --fix to repair ${fixable.length} problem${fixable.length > 1 ? 's' : ''}`
+        )
+      }
+      process.exit(1)
+    }
+
+    lockWorkspace(workspaceRoot)
+
+    let remaining = 0
+    for (const problem of report.problems) {
+      if (!problem.fixable) {
+        remaining++
+        continue
+      }
+
+      fixProblem(problem, workspaceRoot)
+      p.log.success(`Fixed: ${problem.message}`)
+    }
+
+    if (remaining > 0) {
+      p.log.warn(
+        `${remaining} problem${remaining > 1 ? 's' : ''} can't be fixed automatically. Adopt unmanaged skills with taito adopt or reinstall them with taito add.`
+      )
+      process.exit(1)
+    }
+  } catch (error) {
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
+  }
+}
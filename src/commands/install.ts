@@ -0,0 +1,283 @@
+import { existsSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import * as p from '@clack/prompts'
+import { writeAgentOutput } from '../lib/adapters.js'
+import { lockWorkspace, replaceDir } from '../lib/atomic.js'
+import {
+  getSecretVariables,
+  getSuppliedSecrets,
+  parseAnswerAssignments,
+  parseSkillConfig,
+} from '../lib/config.js'
+import { saveBaseSnapshot } from '../lib/edits.js'
+import { fingerprintFiles, hashFiles } from '../lib/hash.js'
+import { linkSkillDir } from '../lib/links.js'
+import { readLockfile } from '../lib/lockfile.js'
+import { recordInstalledSkill } from '../lib/metadata.js'
+import {
+  findWorkspaceRoot,
+  getBaseSnapshotDir,
+  getOutputBaseSnapshotDir,
+  getSkillConfigPath,
+  getSkillOutputDir,
+  getStoreBaseSnapshotDir,
+  type AgentType,
+} from '../lib/paths.js'
+import { promptForVariables } from '../lib/prompts.js'
+import { parseSkillSource } from '../lib/providers.js'
+import { copyStandardSkill, renderSkill } from '../lib/render.js'
+import { fetchSource } from '../lib/source.js'
+import type { InstallOptions, LockedSkill } from '../types.js'
+
+/**
+ * Install every skill pinned in taito.lock
+ * Each skill is rebuilt from its locked commit and variables, and the
+ * result is verified against the locked content hash
+ */
+export async function installCommand(
+  options: InstallOptions = {}
+): Promise<void> {
+  const spinner = p.spinner()
+
+  let assignments: Record<string, string>
+  try {
+    assignments = parseAnswerAssignments(options.set ?? [])
+  } catch (error) {
+    p.log.error((error as Error).message)
+    process.exit(1)
+  }
+
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    try {
+      lockWorkspace(workspaceRoot)
+    } catch (error) {
+      // Reported here since the spinner is not running yet
+      p.log.error((error as Error).message)
+      process.exit(1)
+    }
+    const lockfile = readLockfile(workspaceRoot)
+
+    if (lockfile.skills.length === 0) {
+      p.log.info('No skills in taito.lock.')
+      return
+    }
+
+    // Group skills by source and commit so each repository is fetched once
+    const groups = new Map<string, LockedSkill[]>()
+    for (const skill of lockfile.skills) {
+      const key = `${skill.source}#${skill.commit ?? ''}`
+      groups.set(key, [...(groups.get(key) ?? []), skill])
+    }
+
+    let failed = 0
+
+    // Store copies rendered so far, with their files
+    const renderedStores = new Map<string, string[]>()
+
+    for (const skills of groups.values()) {
+      const { source, commit } = skills[0]
+      const skillSource = parseSkillSource(source, commit)
+
+      if (skillSource.type !== 'local') {
+        if (!commit) {
+          throw new Error(`Missing commit for '${source}' in taito.lock`)
+        }
+        spinner.start(`Fetching ${source}@${commit.slice(0, 7)}...`)
+      }
+
+      const fetched = await fetchSource(source, commit, workspaceRoot, {
+        offline: options.offline,
+      })
+
+      if (skillSource.type !== 'local') {
+        spinner.stop(`Fetched ${source}@${commit!.slice(0, 7)}`)
+      }
+
+      for (const skill of skills) {
+        const ok = await installLockedSkill(
+          skill,
+          fetched.repoDir,
+          workspaceRoot,
+          renderedStores,
+          assignments,
+          spinner
+        )
+        if (!ok) {
+          failed++
+        }
+      }
+    }
+
+    if (failed > 0) {
+      p.log.error(
+        `${failed} skill${failed > 1 ? 's' : ''} did not match taito.lock.`
+      )
+      process.exit(1)
+    }
+
+    p.log.success(
+      `Installed ${lockfile.skills.length} skill${lockfile.skills.length > 1 ? 's' : ''} from taito.lock`
+    )
+  } catch (error) {
+    spinner.stop('Failed')
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
+  }
+}
+
+/**
+ * Rebuild a single locked skill and verify its content hash
+ * Returns false, leaving the previous version and its metadata in place,
+ * if the rendered files don't match the lockfile
+ */
+async function installLockedSkill(
+  skill: LockedSkill,
+  repoDir: string,
+  workspaceRoot: string,
+  renderedStores: Map<string, string[]>,
+  assignments: Record<string, string>,
+  spinner: ReturnType<typeof p.spinner>
+): Promise<boolean> {
+  const skillDir = join(repoDir, skill.skillPath)
+  if (!existsSync(join(skillDir, 'SKILL.md'))) {
+    throw new Error(
+      `Skill '${skill.name}' not found at ${skill.skillPath} in ${skill.source}`
+    )
+  }
+
+  const agent = skill.agent as AgentType | undefined
+  const agentDir = skill.output
+    ? resolve(workspaceRoot, skill.output)
+    : getSkillOutputDir(skill.name, agent, false, workspaceRoot)
+
+  // Skills shared by several agents are rendered into the store once
+  const outputDir = skill.store ? resolve(workspaceRoot, skill.store) : agentDir
+  let files = renderedStores.get(outputDir)
+
+  // Secrets are never locked, so they come from --set, TAITO_VAR_<KEY> or
+  // a prompt. Without a terminal, only required secrets must be supplied
+  const config = skill.customized
+    ? parseSkillConfig(getSkillConfigPath(skillDir))
+    : undefined
+  const secrets = config ? getSecretVariables(config) : []
+  let values = skill.variables ?? {}
+  if (config && secrets.length > 0 && !files) {
+    values = await promptForVariables(config, {
+      ...values,
+      ...getSuppliedSecrets(config, assignments),
+    })
+  }
+
+  spinner.start(`Installing ${skill.name}...`)
+
+  // Files rendered with secrets can't be compared with the locked hash
+  const verify = secrets.length === 0
+
+  try {
+    if (!files) {
+      // Render into a fresh directory and swap it in, so stale files don't
+      // survive and a failure leaves the previous version in place. The
+      // staged files are verified first, so content that doesn't match
+      // the lockfile is never installed
+      files = await replaceDir(outputDir, async (dir) => {
+        const rendered = skill.customized
+          ? await renderSkill(skillDir, dir, values)
+          : copyStandardSkill(skillDir, dir)
+        if (verify) {
+          checkIntegrity(skill, dir, rendered)
+        }
+        return rendered
+      })
+
+      saveBaseSnapshot(
+        outputDir,
+        files,
+        skill.store
+          ? getStoreBaseSnapshotDir(skill.name, workspaceRoot)
+          : skill.output
+            ? getOutputBaseSnapshotDir(agentDir)
+            : getBaseSnapshotDir(skill.name, agent, false, workspaceRoot)
+      )
+
+      if (skill.store) {
+        renderedStores.set(outputDir, files)
+      }
+    } else if (verify) {
+      // The store was rendered for another agent, check it against this entry
+      checkIntegrity(skill, outputDir, files)
+    }
+  } catch (error) {
+    if (!(error instanceof IntegrityError)) {
+      throw error
+    }
+    spinner.stop(`${skill.name} does not match taito.lock`)
+    p.log.warn(`Expected ${error.expected}`)
+    p.log.warn(`Received ${error.received}`)
+    return false
+  }
+
+  const link = skill.store
+    ? linkSkillDir(outputDir, agentDir, skill.link ?? 'symlink')
+    : undefined
+
+  if (skill.format && !skill.output) {
+    writeAgentOutput(skill.format, skill.name, agentDir, workspaceRoot)
+  }
+
+  recordInstalledSkill(
+    {
+      name: skill.name,
+      source: skill.source,
+      ref: skill.ref,
+      tag: skill.tag,
+      commit: skill.commit,
+      skillPath: skill.skillPath,
+      version: skill.version,
+      ...(skill.store ? { store: skill.store, link } : {}),
+      ...(skill.output ? { output: skill.output } : {}),
+      format: skill.format,
+      customized: skill.customized,
+      variables: skill.variables,
+      files: fingerprintFiles(outputDir, files),
+    },
+    agent,
+    false,
+    workspaceRoot
+  )
+
+  spinner.stop(`${skill.name} installed!`)
+  if (!verify) {
+    p.log.info(
+      `${skill.name} uses secrets, so its content hash wasn't verified`
+    )
+  }
+  return true
+}
+
+/**
+ * Rendered files that don't match the content hash in taito.lock
+ */
+class IntegrityError extends Error {
+  constructor(
+    public expected: string,
+    public received: string
+  ) {
+    super(`Content hash mismatch: expected ${expected}, received ${received}`)
+  }
+}
+
+/**
+ * Compare rendered files with a locked skill's content hash
+ */
+function checkIntegrity(
+  skill: LockedSkill,
+  dir: string,
+  files: string[]
+): void {
+  const integrity = hashFiles(dir, files)
+  if (integrity !== skill.integrity) {
+    throw new IntegrityError(skill.integrity, integrity)
+  }
+}
@@ -1,62 +1,62 @@
-import { existsSync } from 'node:fs'
 import * as p from '@clack/prompts'
-import { getInstalledSkills } from '../lib/metadata.js'
+import { findInstallations, type SkillInstallation } from '../lib/metadata.js'
 import {
-  agentConfigs,
-  detectAllAgents,
   findWorkspaceRoot,
+  getAgentConfig,
   getSkillsDir,
 } from '../lib/paths.js'
+import type { ListOptions } from '../types.js'
 
 /**
- * List installed skills
+ * List installed skills, grouped by agent and scope
  */
-export async function listCommand(): Promise<void> {
-  const workspaceRoot = findWorkspaceRoot()
-  const detectedAgents = detectAllAgents(workspaceRoot)
-
-  if (detectedAgents.length === 0) {
-    p.log.info('No agents detected in workspace.')
-    return
-  }
-
-  let totalSkills = 0
-
-  for (const agent of detectedAgents) {
-    const config = agentConfigs[agent]
-    const skillsDir = getSkillsDir(agent, false, workspaceRoot)
-
-    if (!existsSync(skillsDir)) {
-      continue
+export async function listCommand(options: ListOptions = {}): Promise<void> {
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    const installations = findInstallations(options, workspaceRoot)
+
+    if (installations.length === 0) {
+      p.log.info(
+        options.global
+          ? 'No global skills installed.'
+          : 'No skills installed yet.'
+      )
+      return
     }
 
-    const skills = getInstalledSkills(agent, false, workspaceRoot)
-
-    if (skills.length === 0) {
-      continue
+    const groups = new Map<string, SkillInstallation[]>()
+    for (const installation of installations) {
+      const key = `${installation.agent}:${installation.global}`
+      groups.set(key, [...(groups.get(key) ?? []), installation])
     }
 
-    totalSkills += skills.length
+    for (const group of groups.values()) {
+      const { agent, global } = group[0]
+      const config = getAgentConfig(agent, workspaceRoot)
+      const scopeLabel = global ? ', global' : ''
 
-    p.log.info(
-      `\n${config.name} (${skills.length} skill${skills.length > 1 ? 's' : ''}):`
-    )
-    p.log.message('')
-
-    for (const skill of skills) {
-      const customLabel = skill.customized ? ' (customized)' : ''
-      const date = new Date(skill.installedAt).toLocaleDateString()
-
-      p.log.message(`  ${skill.name}${customLabel}`)
-      p.log.message(`    Source: ${skill.source}`)
-      p.log.message(`    Installed: ${date}`)
+      p.log.info(
+        `\n${config.name} (${group.length} skill${group.length > 1 ? 's' : ''}${scopeLabel}):`
+      )
       p.log.message('')
-    }
 
-    p.log.message(`  Directory: ${skillsDir}`)
-  }
+      for (const { skill } of group) {
+        const customLabel = skill.customized ? ' (customized)' : ''
+        const date = new Date(skill.installedAt).toLocaleDateString()
+
+        p.log.message(`  ${skill.name}${customLabel}`)
+        p.log.message(`    Source: ${skill.source}`)
+        p.log.message(`    Installed: ${date}`)
+        p.log.message('')
+      }
 
-  if (totalSkills === 0) {
-    p.log.info('No skills installed yet.')
+      p.log.message(
+        `  Directory: ${getSkillsDir(agent, global, workspaceRoot)}`
+      )
+    }
+  } catch (error) {
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
   }
 }
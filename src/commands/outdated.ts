@@ -0,0 +1,202 @@
+import * as p from '@clack/prompts'
+import { getSkillVersion } from '../lib/discovery.js'
+import { getAllInstalledSkills } from '../lib/metadata.js'
+import {
+  findWorkspaceRoot,
+  getAgentConfig,
+  type AgentType,
+} from '../lib/paths.js'
+import { isNewerTag, isVersionRange, isVersionTag } from '../lib/semver.js'
+import { fetchSource, findLatestTag, findSkillInSource } from '../lib/source.js'
+import type { FetchedSource, OutdatedOptions } from '../types.js'
+
+/**
+ * Comparison between an installed skill and its upstream version
+ */
+interface OutdatedResult {
+  name: string
+  agent: AgentType
+  global: boolean
+  source: string
+  range?: string // version range the skill follows
+  installedVersion?: string
+  installedTag?: string
+  installedCommit?: string
+  latestVersion?: string
+  latestTag?: string // highest tag within the range
+  latestCommit?: string
+  newestTag?: string // higher tag outside the range or the pinned tag
+  outdated: boolean
+  error?: string
+}
+
+/**
+ * Report installed skills whose upstream version or commit has changed
+ * Exits with a non-zero code if any skill is outdated so CI can flag drift
+ */
+export async function outdatedCommand(options: OutdatedOptions): Promise<void> {
+  const spinner = p.spinner()
+  const workspaceRoot = findWorkspaceRoot()
+  const installations = getAllInstalledSkills(workspaceRoot)
+
+  if (installations.length === 0) {
+    if (options.json) {
+      console.log('[]')
+    } else {
+      p.log.info('No skills installed yet.')
+    }
+    return
+  }
+
+  // Fetched sources, keyed by source and ref so each is only fetched once
+  const fetchedSources = new Map<string, FetchedSource | Error>()
+  const newestTags = new Map<string, string | undefined>()
+  const results: OutdatedResult[] = []
+
+  if (!options.json) {
+    spinner.start('Checking for updates...')
+  }
+
+  for (const { agent, global, skill } of installations) {
+    const result: OutdatedResult = {
+      name: skill.name,
+      agent,
+      global,
+      source: skill.source,
+      range: skill.ref && isVersionRange(skill.ref) ? skill.ref : undefined,
+      installedVersion: skill.version,
+      installedTag: skill.tag,
+      installedCommit: skill.commit,
+      outdated: false,
+    }
+    results.push(result)
+
+    const key = `${skill.source}@${skill.ref ?? ''}`
+    if (!fetchedSources.has(key)) {
+      // Local sources of global installs are stored as absolute paths
+      fetchedSources.set(
+        key,
+        await fetchSource(skill.source, skill.ref, workspaceRoot).catch(
+          (error: Error) => error
+        )
+      )
+    }
+
+    try {
+      const fetched = fetchedSources.get(key)!
+      if (fetched instanceof Error) {
+        throw fetched
+      }
+
+      const skillDir = findSkillInSource(fetched, skill.name, skill.skillPath)
+      result.latestVersion = getSkillVersion(skillDir)
+      result.latestTag = fetched.tag
+      result.latestCommit = fetched.commit
+      result.outdated = isOutdated(result)
+
+      // Report newer releases the range or the pinned tag doesn't allow
+      const pinnedTag =
+        fetched.tag ?? (skill.ref && isVersionTag(skill.ref) ? skill.ref : '')
+      if (pinnedTag) {
+        if (!newestTags.has(key)) {
+          newestTags.set(
+            key,
+            await findLatestTag(fetched).catch(() => undefined)
+          )
+        }
+        const newestTag = newestTags.get(key)
+        if (newestTag && isNewerTag(newestTag, pinnedTag)) {
+          result.newestTag = newestTag
+        }
+      }
+    } catch (error) {
+      result.error = (error as Error).message
+    }
+  }
+
+  const outdatedCount = results.filter((r) => r.outdated).length
+  const failed = results.some((r) => r.error)
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2))
+  } else {
+    spinner.stop(
+      outdatedCount > 0
+        ? `${outdatedCount} outdated skill${outdatedCount > 1 ? 's' : ''}`
+        : 'All skills are up to date'
+    )
+    printTable(results)
+  }
+
+  if (outdatedCount > 0 || failed) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Check whether the upstream version or commit differs from the installed one
+ */
+function isOutdated(result: OutdatedResult): boolean {
+  // Installs recorded without a commit can't be verified, so they count too
+  if (result.latestCommit && result.latestCommit !== result.installedCommit) {
+    return true
+  }
+
+  return (
+    result.installedVersion !== undefined &&
+    result.latestVersion !== undefined &&
+    result.installedVersion !== result.latestVersion
+  )
+}
+
+/**
+ * Format a version and commit for display (e.g., "1.2.0 (a1b2c3d)")
+ */
+function formatVersion(version?: string, commit?: string): string {
+  const parts = [version, commit && `(${commit.slice(0, 7)})`].filter(Boolean)
+  return parts.length > 0 ? parts.join(' ') : '-'
+}
+
+/**
+ * Print results as an aligned table
+ */
+function printTable(results: OutdatedResult[]): void {
+  const rows = [
+    ['Skill', 'Agent', 'Installed', 'Latest', 'Source'],
+    ...results.map((r) => [
+      r.outdated ? `${r.name} *` : r.name,
+      `${getAgentConfig(r.agent).name}${r.global ? ' (global)' : ''}`,
+      formatVersion(r.installedVersion ?? r.installedTag, r.installedCommit),
+      r.error
+        ? 'error'
+        : formatVersion(r.latestVersion ?? r.latestTag, r.latestCommit),
+      r.source,
+    ]),
+  ]
+
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  )
+
+  const lines = rows.map((row) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd()
+  )
+
+  p.log.message(lines.join('\n'))
+
+  for (const result of results) {
+    if (result.error) {
+      p.log.warn(`${result.name}: ${result.error}`)
+    }
+    if (result.newestTag) {
+      p.log.info(
+        result.range
+          ? `${result.name}: ${result.newestTag} is available outside ${result.range}`
+          : `${result.name}: ${result.newestTag} is available`
+      )
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import * as p from '@clack/prompts'
+import { answerLevels, isAnswerLevel, rememberAnswers } from '../lib/answers.js'
+import { lockWorkspace } from '../lib/atomic.js'
+import {
+  getDefaultValues,
+  getSuppliedAnswers,
+  parseAnswerAssignments,
+  parseSkillConfig,
+} from '../lib/config.js'
+import { installFromSource } from '../lib/install.js'
+import { getInstalledSkill } from '../lib/metadata.js'
+import {
+  detectAllAgents,
+  findWorkspaceRoot,
+  getAgentConfig,
+  getSkillConfigPath,
+  isCustomizableSkill,
+  parseAgentList,
+  type AgentType,
+} from '../lib/paths.js'
+import {
+  clearVariableCache,
+  isInteractive,
+  promptForVariables,
+} from '../lib/prompts.js'
+import { fetchSource, findSkillInSource } from '../lib/source.js'
+import {
+  AnswersValidationError,
+  assertValidAnswers,
+  INVALID_ANSWERS_EXIT_CODE,
+} from '../lib/validation.js'
+import type { ReconfigureOptions, VariableValues } from '../types.js'
+
+/**
+ * Change the answers of an installed customizable skill
+ * Prompts with the saved answers pre-filled and re-renders the skill from
+ * the commit it was installed from. --set and TAITO_VAR_<KEY> answer
+ * without prompting; with --json or without a terminal nothing is asked
+ * and the other saved answers are kept
+ */
+export async function reconfigureCommand(
+  skillName: string,
+  options: ReconfigureOptions
+): Promise<void> {
+  const spinner = p.spinner()
+
+  // Clear variable cache at start of command
+  clearVariableCache()
+
+  if (options.remember && !isAnswerLevel(options.remember)) {
+    p.log.error(
+      `Invalid answer level: ${options.remember}. Use ${answerLevels.join(' or ')}.`
+    )
+    process.exit(1)
+  }
+
+  if (options.json && !options.dryRun) {
+    p.log.error('--json can only be used with --dry-run')
+    process.exit(1)
+  }
+
+  if (options.perSkill && !options.remember) {
+    p.log.error('--per-skill can only be used with --remember')
+    process.exit(1)
+  }
+
+  let assignments: Record<string, string>
+  try {
+    assignments = parseAnswerAssignments(options.set ?? [])
+  } catch (error) {
+    p.log.error((error as Error).message)
+    process.exit(1)
+  }
+
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    if (!options.dryRun) {
+      try {
+        lockWorkspace(workspaceRoot)
+      } catch (error) {
+        // Reported here since the spinner is not running yet
+        p.log.error((error as Error).message)
+        process.exit(1)
+      }
+    }
+
+    // Find which agent(s) have this skill installed
+    const agents = options.agent
+      ? parseAgentList(options.agent, workspaceRoot)
+      : detectAllAgents(workspaceRoot)
+    const agentsWithSkill = agents.filter((agent) =>
+      getInstalledSkill(skillName, agent, false, workspaceRoot)
+    )
+
+    if (agentsWithSkill.length === 0) {
+      p.log.error(
+        options.agent
+          ? `Skill '${skillName}' is not installed for ${options.agent}.`
+          : `Skill '${skillName}' is not installed for any detected agent.`
+      )
+      process.exit(1)
+    }
+
+    let agent: AgentType = agentsWithSkill[0]
+
+    if (agentsWithSkill.length > 1 && options.json) {
+      p.log.error(
+        `Skill '${skillName}' is installed for ${agentsWithSkill.join(', ')}. Choose one with --agent.`
+      )
+      process.exit(1)
+    }
+
+    if (agentsWithSkill.length > 1) {
+      const selected = await p.select({
+        message: 'Which installation do you want to reconfigure?',
+        options: agentsWithSkill.map((a) => ({
+          value: a,
+          label:
+            getInstalledSkill(skillName, a, false, workspaceRoot)?.output ??
+            getAgentConfig(a, workspaceRoot).name,
+        })),
+      })
+
+      if (p.isCancel(selected)) {
+        p.log.info('Reconfigure cancelled.')
+        return
+      }
+
+      agent = selected as AgentType
+    }
+
+    const installed = getInstalledSkill(skillName, agent, false, workspaceRoot)!
+
+    if (!installed.customized) {
+      p.log.error(`Skill '${skillName}' is not a customizable skill.`)
+      process.exit(1)
+    }
+
+    // Re-render from the installed commit so only the answers change
+    if (!options.json) {
+      spinner.start(`Fetching ${installed.source}...`)
+    }
+    const fetched = await fetchSource(
+      installed.source,
+      installed.commit ?? installed.ref,
+      workspaceRoot,
+      { offline: options.offline }
+    )
+    if (!options.json) {
+      spinner.stop(`Fetched ${installed.source}`)
+    }
+
+    const skillDir = findSkillInSource(
+      fetched,
+      installed.name,
+      installed.skillPath
+    )
+
+    if (!isCustomizableSkill(skillDir)) {
+      throw new Error(`No .taito/ folder found for '${skillName}'.`)
+    }
+
+    const config = parseSkillConfig(getSkillConfigPath(skillDir))
+    const supplied = getSuppliedAnswers(config, assignments)
+
+    // JSON output can't be mixed with prompts, so the saved answers are kept
+    const prompt = !options.json && isInteractive()
+    let values: VariableValues
+    if (!prompt) {
+      values = getDefaultValues(config, {
+        ...installed.variables,
+        ...supplied,
+      })
+    } else {
+      values = await promptForVariables(config, supplied, installed.variables)
+    }
+
+    if (!prompt || Object.keys(supplied).length > 0) {
+      // Raw assignments are passed too, so unknown variables are reported
+      assertValidAnswers(
+        config,
+        { ...assignments, ...supplied },
+        values,
+        workspaceRoot,
+        '--set or TAITO_VAR_*'
+      )
+    }
+
+    const preview = await installFromSource({
+      installed,
+      fetched,
+      skillDir,
+      values,
+      agent,
+      workspaceRoot,
+      dryRun: options.dryRun,
+      json: options.json,
+    })
+
+    if (options.json) {
+      console.log(JSON.stringify(preview ? [preview] : [], null, 2))
+    }
+
+    if (options.remember && !options.dryRun) {
+      rememberAnswers(
+        config,
+        values,
+        options.remember,
+        !!options.perSkill,
+        workspaceRoot
+      )
+    }
+  } catch (error) {
+    if (!options.json) {
+      spinner.stop('Failed')
+    }
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(
+      error instanceof AnswersValidationError ? INVALID_ANSWERS_EXIT_CODE : 1
+    )
+  }
+}
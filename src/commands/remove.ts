@@ -1,58 +1,78 @@
-import { existsSync, rmSync } from 'node:fs'
 import * as p from '@clack/prompts'
-import { getInstalledSkills, removeSkillFromMetadata } from '../lib/metadata.js'
-import {
-  agentConfigs,
-  detectAllAgents,
-  findWorkspaceRoot,
-  getSkillOutputDir,
-  type AgentType,
-} from '../lib/paths.js'
+import { lockWorkspace } from '../lib/atomic.js'
+import { uninstallSkill } from '../lib/install.js'
+import { findInstallations, type SkillInstallation } from '../lib/metadata.js'
+import { findWorkspaceRoot, getAgentConfig } from '../lib/paths.js'
+import type { RemoveOptions } from '../types.js'
 
 /**
- * Remove an installed skill
+ * Remove one or more installed skills
  */
-export async function removeCommand(skillName: string): Promise<void> {
+export async function removeCommand(
+  skillNames: string[],
+  options: RemoveOptions = {}
+): Promise<void> {
   const workspaceRoot = findWorkspaceRoot()
-  const detectedAgents = detectAllAgents(workspaceRoot)
 
-  if (detectedAgents.length === 0) {
-    p.log.error('No agents detected in workspace.')
+  const describe = (installations: SkillInstallation[]) =>
+    installations
+      .map(
+        ({ agent, global }) =>
+          `${getAgentConfig(agent, workspaceRoot).name}${global ? ' (global)' : ''}`
+      )
+      .join(', ')
+
+  let installations: SkillInstallation[]
+  try {
+    lockWorkspace(workspaceRoot)
+    installations = findInstallations(options, workspaceRoot)
+  } catch (error) {
+    const err = error as Error
+    p.log.error(err.message)
     process.exit(1)
   }
 
-  // Find which agent(s) have this skill installed
-  const agentsWithSkill: AgentType[] = []
+  const targets: SkillInstallation[] = []
+
+  for (const skillName of skillNames) {
+    const matches = installations.filter((i) => i.skill.name === skillName)
 
-  for (const agent of detectedAgents) {
-    const skills = getInstalledSkills(agent, false, workspaceRoot)
-    if (skills.some((s) => s.name === skillName)) {
-      agentsWithSkill.push(agent)
+    if (matches.length === 0) {
+      const scope = options.allScopes
+        ? ''
+        : options.global
+          ? ' globally'
+          : ' in this workspace'
+      p.log.error(`Skill '${skillName}' is not installed${scope}.`)
+      process.exit(1)
     }
-  }
 
-  if (agentsWithSkill.length === 0) {
-    p.log.error(`Skill '${skillName}' is not installed for any detected agent.`)
-    process.exit(1)
-  }
+    // Group agents that share one store copy so they are removed together
+    const groups = new Map<string, SkillInstallation[]>()
 
-  // If skill is installed for multiple agents, ask which one to remove from
-  let targetAgent: AgentType
+    for (const match of matches) {
+      const key = match.global
+        ? `global:${match.agent}`
+        : (match.skill.store ?? match.agent)
+      groups.set(key, [...(groups.get(key) ?? []), match])
+    }
 
-  if (agentsWithSkill.length === 1) {
-    targetAgent = agentsWithSkill[0]
-    p.log.info(
-      `Found '${skillName}' installed for ${agentConfigs[targetAgent].name}`
-    )
-  } else {
+    // Explicitly targeted agents are removed without asking which one
+    if (groups.size === 1 || options.agent) {
+      targets.push(...matches)
+      continue
+    }
+
+    // If skill is installed for multiple agents, ask which one to remove from
     p.log.info(`Skill '${skillName}' is installed for multiple agents.`)
 
     const selected = await p.select({
-      message: 'Which installation do you want to remove?',
+      message: `Which installation of '${skillName}' do you want to remove?`,
       options: [
-        ...agentsWithSkill.map((a) => ({
-          value: a,
-          label: agentConfigs[a].name,
+        ...[...groups.entries()].map(([key, group]) => ({
+          value: key,
+          label: describe(group),
+          hint: group.length > 1 ? 'shared copy' : undefined,
         })),
         {
           value: 'all',
@@ -66,21 +86,19 @@ export async function removeCommand(skillName: string): Promise<void> {
       return
     }
 
-    if (selected === 'all') {
-      // Remove from all agents
-      for (const agent of agentsWithSkill) {
-        await removeSingleSkill(skillName, agent, workspaceRoot)
-      }
-      p.log.success(`Removed skill '${skillName}' from all agents`)
-      return
-    }
-
-    targetAgent = selected as AgentType
+    targets.push(...(selected === 'all' ? matches : groups.get(selected)!))
   }
 
+  const summary = skillNames
+    .map(
+      (skillName) =>
+        `'${skillName}' from ${describe(targets.filter((t) => t.skill.name === skillName))}`
+    )
+    .join('; ')
+
   // Confirm removal
   const confirm = await p.confirm({
-    message: `Remove skill '${skillName}' from ${agentConfigs[targetAgent].name}?`,
+    message: `Remove skill ${summary}?`,
     initialValue: false,
   })
 
@@ -89,32 +107,8 @@ export async function removeCommand(skillName: string): Promise<void> {
     return
   }
 
-  await removeSingleSkill(skillName, targetAgent, workspaceRoot)
-  p.log.success(
-    `Removed skill '${skillName}' from ${agentConfigs[targetAgent].name}`
-  )
-}
-
-/**
- * Remove a skill from a specific agent
- */
-async function removeSingleSkill(
-  skillName: string,
-  agent: AgentType,
-  workspaceRoot: string
-): Promise<void> {
-  const skillDir = getSkillOutputDir(skillName, agent, false, workspaceRoot)
-
-  // Remove directory
-  if (existsSync(skillDir)) {
-    try {
-      rmSync(skillDir, { recursive: true, force: true })
-    } catch (error) {
-      const err = error as Error
-      throw new Error(`Failed to remove skill directory: ${err.message}`)
-    }
+  for (const { skill, agent, global } of targets) {
+    uninstallSkill(skill.name, agent, workspaceRoot, global)
   }
-
-  // Remove from metadata
-  removeSkillFromMetadata(skillName, agent, false, workspaceRoot)
+  p.log.success(`Removed skill ${summary}`)
 }
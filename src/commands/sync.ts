@@ -0,0 +1,338 @@
+import { resolve } from 'node:path'
+import * as p from '@clack/prompts'
+import { lockWorkspace } from '../lib/atomic.js'
+import {
+  getDefaultValues,
+  getSecretVariables,
+  parseSkillConfig,
+} from '../lib/config.js'
+import { installFromSource, uninstallSkill } from '../lib/install.js'
+import { readManifest } from '../lib/manifest.js'
+import { getInstalledSkill, getInstalledSkills } from '../lib/metadata.js'
+import {
+  detectAllAgents,
+  findWorkspaceRoot,
+  getAgentConfig,
+  getAgentRegistry,
+  getManifestPath,
+  getSkillConfigPath,
+  isCustomizableSkill,
+  resolveAgentType,
+  type AgentType,
+} from '../lib/paths.js'
+import { clearVariableCache, promptForVariables } from '../lib/prompts.js'
+import { parseSkillSource } from '../lib/providers.js'
+import { fetchSource, findSkillInSource } from '../lib/source.js'
+import {
+  AnswersValidationError,
+  assertValidAnswers,
+  INVALID_ANSWERS_EXIT_CODE,
+} from '../lib/validation.js'
+import type {
+  FetchedSource,
+  InstalledSkill,
+  ManifestSkill,
+  SyncOptions,
+  VariableValues,
+} from '../types.js'
+
+/**
+ * A change needed to bring an agent's skills in line with the manifest
+ */
+interface SyncAction {
+  type: 'install' | 'update' | 'remove'
+  name: string
+  agent: AgentType
+  skill?: ManifestSkill // desired state (install and update)
+  installed?: InstalledSkill // current state (update and remove)
+  reason?: string
+}
+
+const actionSymbols: Record<SyncAction['type'], string> = {
+  install: '+',
+  update: '~',
+  remove: '-',
+}
+
+/**
+ * Install, update and optionally prune skills to match taito.toml
+ */
+export async function syncCommand(options: SyncOptions): Promise<void> {
+  const spinner = p.spinner()
+
+  // Clear variable cache at start of command
+  clearVariableCache()
+
+  // Fetched sources, keyed by source and ref so each is only fetched once
+  const fetchedSources = new Map<string, FetchedSource>()
+
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    if (!options.check) {
+      try {
+        lockWorkspace(workspaceRoot)
+      } catch (error) {
+        // Reported here since the spinner is not running yet
+        p.log.error((error as Error).message)
+        process.exit(1)
+      }
+    }
+    const manifest = readManifest(workspaceRoot)
+
+    if (!manifest) {
+      p.log.error(`No manifest found at ${getManifestPath(workspaceRoot)}`)
+      process.exit(1)
+    }
+
+    const defaultAgents = resolveAgents(
+      manifest.agents,
+      detectAllAgents(workspaceRoot),
+      workspaceRoot
+    )
+
+    const actions = planSync(
+      manifest.skills,
+      defaultAgents,
+      workspaceRoot,
+      options.prune
+    )
+
+    if (actions.length === 0) {
+      p.log.success('Installed skills match taito.toml')
+      return
+    }
+
+    for (const action of actions) {
+      const reason = action.reason ? `: ${action.reason}` : ''
+      p.log.message(
+        `${actionSymbols[action.type]} ${action.name} (${getAgentConfig(action.agent, workspaceRoot).name})${reason}`
+      )
+    }
+
+    if (options.check) {
+      p.log.error(
+        `${actions.length} difference${actions.length > 1 ? 's' : ''} between taito.toml and installed skills`
+      )
+      process.exit(1)
+    }
+
+    for (const action of actions) {
+      if (action.type === 'remove') {
+        uninstallSkill(action.name, action.agent, workspaceRoot)
+        p.log.success(
+          `Removed ${action.name} from ${getAgentConfig(action.agent, workspaceRoot).name}`
+        )
+        continue
+      }
+
+      const skill = action.skill!
+      const key = `${skill.source}@${skill.ref ?? ''}`
+      let fetched = fetchedSources.get(key)
+
+      if (!fetched) {
+        spinner.start(`Fetching ${skill.source}...`)
+        fetched = await fetchSource(skill.source, skill.ref, workspaceRoot, {
+          offline: options.offline,
+        })
+        fetchedSources.set(key, fetched)
+        spinner.stop(`Fetched ${skill.source}`)
+      }
+
+      const skillDir = findSkillInSource(
+        fetched,
+        skill.name,
+        fetched.skillSource.skillPath
+      )
+
+      // Declared values win, then saved answers, then defaults
+      let values: VariableValues = {}
+      if (isCustomizableSkill(skillDir)) {
+        const config = parseSkillConfig(getSkillConfigPath(skillDir))
+        const declared = { ...action.installed?.variables, ...skill.variables }
+        values = getDefaultValues(config, declared)
+        assertValidAnswers(
+          config,
+          skill.variables ?? {},
+          values,
+          workspaceRoot,
+          `taito.toml for ${skill.name}`
+        )
+
+        // Secrets are never saved, so ask for those taito.toml doesn't set
+        const secrets = getSecretVariables(config).filter(
+          (key) => !(key in declared)
+        )
+        if (secrets.length > 0) {
+          values = await promptForVariables(
+            config,
+            Object.fromEntries(
+              Object.entries(values).filter(([key]) => !secrets.includes(key))
+            )
+          )
+        }
+      }
+
+      await installFromSource({
+        installed: {
+          ...action.installed,
+          name: skill.name,
+          source: skill.source,
+          ref: fetched.skillSource.ref,
+          customized: isCustomizableSkill(skillDir),
+          installedAt: action.installed?.installedAt ?? '',
+        },
+        fetched,
+        skillDir,
+        values,
+        agent: action.agent,
+        workspaceRoot,
+      })
+    }
+  } catch (error) {
+    spinner.stop('Failed')
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(
+      error instanceof AnswersValidationError ? INVALID_ANSWERS_EXIT_CODE : 1
+    )
+  }
+}
+
+/**
+ * Resolve agent names from the manifest, falling back to detected agents
+ */
+function resolveAgents(
+  names: string[] | undefined,
+  fallback: AgentType[],
+  workspaceRoot: string
+): AgentType[] {
+  if (!names) {
+    return fallback.length > 0 ? fallback : ['cursor']
+  }
+
+  return names.map((name) => {
+    const agent = resolveAgentType(name, workspaceRoot)
+    if (!agent) {
+      throw new Error(
+        `Unknown agent '${name}' in taito.toml. Available agents: ${Object.keys(getAgentRegistry(workspaceRoot)).join(', ')}`
+      )
+    }
+    return agent
+  })
+}
+
+/**
+ * Compare the manifest with installed skills and list the needed changes
+ */
+function planSync(
+  skills: ManifestSkill[],
+  defaultAgents: AgentType[],
+  workspaceRoot: string,
+  prune?: boolean
+): SyncAction[] {
+  const actions: SyncAction[] = []
+  const declared = new Set<string>()
+
+  for (const skill of skills) {
+    for (const agent of resolveAgents(
+      skill.agents,
+      defaultAgents,
+      workspaceRoot
+    )) {
+      declared.add(`${agent}:${skill.name}`)
+
+      const installed = getInstalledSkill(
+        skill.name,
+        agent,
+        false,
+        workspaceRoot
+      )
+
+      if (!installed) {
+        actions.push({ type: 'install', name: skill.name, agent, skill })
+        continue
+      }
+
+      const reason = getDriftReason(skill, installed, workspaceRoot)
+      if (reason) {
+        actions.push({
+          type: 'update',
+          name: skill.name,
+          agent,
+          skill,
+          installed,
+          reason,
+        })
+      }
+    }
+  }
+
+  if (prune) {
+    const agents = new Set([
+      ...defaultAgents,
+      ...skills.flatMap((s) =>
+        resolveAgents(s.agents, defaultAgents, workspaceRoot)
+      ),
+    ])
+
+    for (const agent of agents) {
+      for (const installed of getInstalledSkills(agent, false, workspaceRoot)) {
+        if (!declared.has(`${agent}:${installed.name}`)) {
+          actions.push({
+            type: 'remove',
+            name: installed.name,
+            agent,
+            installed,
+            reason: 'not in taito.toml',
+          })
+        }
+      }
+    }
+  }
+
+  return actions
+}
+
+/**
+ * Describe how an installed skill differs from its manifest entry
+ * Returns undefined if it matches
+ */
+function getDriftReason(
+  skill: ManifestSkill,
+  installed: InstalledSkill,
+  workspaceRoot: string
+): string | undefined {
+  if (!isSameSource(skill.source, installed.source, workspaceRoot)) {
+    return `source ${installed.source} → ${skill.source}`
+  }
+
+  const ref = parseSkillSource(skill.source, skill.ref).ref
+  if (ref !== installed.ref) {
+    return `ref ${installed.ref ?? '-'} → ${ref}`
+  }
+
+  const changed = Object.entries(skill.variables ?? {})
+    .filter(
+      ([key, value]) =>
+        JSON.stringify(installed.variables?.[key]) !== JSON.stringify(value)
+    )
+    .map(([key]) => key)
+
+  if (changed.length > 0) {
+    return `variables ${changed.join(', ')} changed`
+  }
+
+  return undefined
+}
+
+/**
+ * Compare sources, resolving local paths against the workspace root
+ */
+function isSameSource(a: string, b: string, workspaceRoot: string): boolean {
+  const normalize = (source: string) =>
+    parseSkillSource(source).type === 'local'
+      ? resolve(workspaceRoot, source)
+      : source
+
+  return normalize(a) === normalize(b)
+}
@@ -0,0 +1,203 @@
+import * as p from '@clack/prompts'
+import { lockWorkspace } from '../lib/atomic.js'
+import {
+  getDefaultValues,
+  getSecretVariables,
+  getSuppliedSecrets,
+  isVariableAsked,
+  parseSkillConfig,
+} from '../lib/config.js'
+import { installFromSource } from '../lib/install.js'
+import { getInstalledSkills } from '../lib/metadata.js'
+import {
+  detectAllAgents,
+  findWorkspaceRoot,
+  getSkillConfigPath,
+  isCustomizableSkill,
+  type AgentType,
+} from '../lib/paths.js'
+import { clearVariableCache, promptForVariables } from '../lib/prompts.js'
+import { fetchSource, findSkillInSource } from '../lib/source.js'
+import type {
+  FetchedSource,
+  InstalledSkill,
+  SkillPreview,
+  UpdateOptions,
+  VariableValues,
+} from '../types.js'
+
+/**
+ * Update installed skills from their sources
+ * Re-renders customizable skills with the saved answers and only prompts
+ * for variables that are new upstream
+ */
+export async function updateCommand(
+  names: string[],
+  options: UpdateOptions
+): Promise<void> {
+  const spinner = p.spinner()
+
+  if (options.json && !options.dryRun) {
+    p.log.error('--json can only be used with --dry-run')
+    process.exit(1)
+  }
+
+  // Clear variable cache at start of command
+  clearVariableCache()
+
+  // Fetched sources, keyed by source and ref so each is only fetched once
+  const fetchedSources = new Map<string, FetchedSource>()
+
+  try {
+    const workspaceRoot = findWorkspaceRoot()
+    if (!options.dryRun) {
+      try {
+        lockWorkspace(workspaceRoot)
+      } catch (error) {
+        // Reported here since the spinner is not running yet
+        p.log.error((error as Error).message)
+        process.exit(1)
+      }
+    }
+    const detectedAgents = detectAllAgents(workspaceRoot)
+
+    // Find installed skills to update
+    const targets: { agent: AgentType; skill: InstalledSkill }[] = []
+
+    for (const agent of detectedAgents) {
+      for (const skill of getInstalledSkills(agent, false, workspaceRoot)) {
+        if (names.length === 0 || names.includes(skill.name)) {
+          targets.push({ agent, skill })
+        }
+      }
+    }
+
+    const missing = names.filter(
+      (name) => !targets.some((t) => t.skill.name === name)
+    )
+    if (missing.length > 0) {
+      p.log.error(`Not installed for any detected agent: ${missing.join(', ')}`)
+      process.exit(1)
+    }
+
+    if (targets.length === 0) {
+      if (options.json) {
+        console.log('[]')
+      } else {
+        p.log.info('No skills installed yet.')
+      }
+      return
+    }
+
+    // Skills shared through the store are updated once for all linked agents
+    const updatedStores = new Set<string>()
+    const previews: SkillPreview[] = []
+
+    for (const { agent, skill } of targets) {
+      if (skill.store) {
+        if (updatedStores.has(skill.store)) {
+          continue
+        }
+        updatedStores.add(skill.store)
+      }
+
+      const key = `${skill.source}@${skill.ref ?? ''}`
+      let fetched = fetchedSources.get(key)
+
+      if (!fetched) {
+        if (!options.json) {
+          spinner.start(`Fetching ${skill.source}...`)
+        }
+        fetched = await fetchSource(skill.source, skill.ref, workspaceRoot, {
+          offline: options.offline,
+        })
+        fetchedSources.set(key, fetched)
+        if (!options.json) {
+          spinner.stop(`Fetched ${skill.source}`)
+        }
+      }
+
+      const preview = await updateSingleSkill(
+        skill,
+        fetched,
+        agent,
+        workspaceRoot,
+        options
+      )
+      if (preview) {
+        previews.push(preview)
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(previews, null, 2))
+    }
+  } catch (error) {
+    if (!options.json) {
+      spinner.stop('Failed')
+    }
+    const err = error as Error
+    p.log.error(err.message)
+    process.exit(1)
+  }
+}
+
+/**
+ * Re-render a single installed skill and apply the changes
+ * A dry run returns what would change instead
+ */
+async function updateSingleSkill(
+  installed: InstalledSkill,
+  fetched: FetchedSource,
+  agent: AgentType,
+  workspaceRoot: string,
+  options: UpdateOptions
+): Promise<SkillPreview | undefined> {
+  const skillDir = findSkillInSource(
+    fetched,
+    installed.name,
+    installed.skillPath
+  )
+  const customizable = isCustomizableSkill(skillDir)
+  let values: VariableValues = {}
+
+  if (customizable) {
+    const config = parseSkillConfig(getSkillConfigPath(skillDir))
+    const saved = installed.variables ?? {}
+
+    // Only prompt if upstream added variables we have no answer for, or
+    // for secrets, which are never saved, unless TAITO_VAR_<KEY> sets them
+    const secrets = getSecretVariables(config)
+    const answers = { ...saved, ...getSuppliedSecrets(config, {}) }
+    const defaults = getDefaultValues(config, answers)
+    const unanswered = Object.keys(config.variables).filter(
+      (key) =>
+        !(key in answers) && isVariableAsked(config.variables[key], defaults)
+    )
+    const newVariables = unanswered.filter((key) => !secrets.includes(key))
+
+    // JSON output can't be mixed with prompts, so new variables take
+    // their defaults
+    if (unanswered.length > 0 && !options.json) {
+      if (newVariables.length > 0) {
+        p.log.info(
+          `New variables in ${installed.name}: ${newVariables.join(', ')}`
+        )
+      }
+      values = await promptForVariables(config, answers)
+    } else {
+      values = defaults
+    }
+  }
+
+  return installFromSource({
+    installed,
+    fetched,
+    skillDir,
+    values,
+    agent,
+    workspaceRoot,
+    dryRun: options.dryRun,
+    json: options.json,
+  })
+}
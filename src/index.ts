@@ -2,15 +2,52 @@
 export * from './types.js'
 
 // Re-export lib functions
+export * from './lib/adapters.js'
+export * from './lib/answers.js'
+export * from './lib/atomic.js'
+export * from './lib/bitbucket.js'
+export * from './lib/cache.js'
 export * from './lib/config.js'
+export * from './lib/condition.js'
+export * from './lib/diff.js'
+export * from './lib/doctor.js'
+export * from './lib/edits.js'
+export * from './lib/files.js'
+export * from './lib/git.js'
 export * from './lib/github.js'
+export * from './lib/gitlab.js'
+export * from './lib/hash.js'
+export * from './lib/install.js'
+export * from './lib/links.js'
+export * from './lib/lockfile.js'
+export * from './lib/manifest.js'
+export * from './lib/merge.js'
 export * from './lib/metadata.js'
+export * from './lib/monorepo.js'
 export * from './lib/paths.js'
 export * from './lib/prompts.js'
+export * from './lib/providers.js'
+export * from './lib/remote.js'
 export * from './lib/render.js'
+export * from './lib/source.js'
+export * from './lib/validation.js'
 
 // Re-export commands
 export { addCommand } from './commands/add.js'
+export { adoptCommand } from './commands/adopt.js'
+export { agentsCommand } from './commands/agents.js'
+export {
+  answersExportCommand,
+  answersForgetCommand,
+  answersListCommand,
+} from './commands/answers.js'
+export { cacheCleanCommand, cacheListCommand } from './commands/cache.js'
+export { doctorCommand } from './commands/doctor.js'
+export { installCommand } from './commands/install.js'
 export { listCommand } from './commands/list.js'
+export { outdatedCommand } from './commands/outdated.js'
+export { reconfigureCommand } from './commands/reconfigure.js'
 export { removeCommand } from './commands/remove.js'
+export { syncCommand } from './commands/sync.js'
+export { updateCommand } from './commands/update.js'
 export { buildCommand } from './commands/build.js'
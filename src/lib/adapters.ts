@@ -0,0 +1,255 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname, join, relative } from 'node:path'
+import type { OutputFormat } from '../types.js'
+import { readSkillDocument } from './discovery.js'
+
+/**
+ * A rendered skill converted for an agent that doesn't read SKILL.md
+ */
+interface NativeSkill {
+  name: string
+  description?: string
+  globs?: string
+  body: string
+  filesDir?: string // supporting files, relative to the workspace root
+}
+
+/**
+ * Writes a skill in an agent's native format and removes it again
+ */
+interface OutputAdapter {
+  getPath: (workspaceRoot: string, skillName: string) => string
+  write: (workspaceRoot: string, skill: NativeSkill) => void
+  remove: (workspaceRoot: string, skillName: string) => void
+}
+
+/**
+ * Adapters for formats other than plain skill directories
+ */
+const outputAdapters: Record<Exclude<OutputFormat, 'skill'>, OutputAdapter> = {
+  'cursor-rules': {
+    getPath: (root, name) => join(root, '.cursor', 'rules', `${name}.mdc`),
+    write(root, skill) {
+      const filePath = this.getPath(root, skill.name)
+      // JSON strings are valid YAML, so colons and quotes stay intact
+      const frontmatter = [
+        '---',
+        `description:${skill.description ? ` ${JSON.stringify(skill.description)}` : ''}`,
+        `globs:${skill.globs ? ` ${JSON.stringify(skill.globs)}` : ''}`,
+        'alwaysApply: false',
+        '---',
+      ].join('\n')
+
+      mkdirSync(dirname(filePath), { recursive: true })
+      writeFileSync(filePath, `${frontmatter}\n\n${formatBody(skill)}`)
+    },
+    remove(root, name) {
+      rmSync(this.getPath(root, name), { force: true })
+    },
+  },
+  'agents-md': {
+    getPath: (root) => join(root, 'AGENTS.md'),
+    write(root, skill) {
+      upsertSection(this.getPath(root, skill.name), skill)
+    },
+    remove(root, name) {
+      removeSection(this.getPath(root, name), name)
+    },
+  },
+  copilot: {
+    getPath: (root) => join(root, '.github', 'copilot-instructions.md'),
+    write(root, skill) {
+      upsertSection(this.getPath(root, skill.name), skill)
+    },
+    remove(root, name) {
+      removeSection(this.getPath(root, name), name)
+    },
+  },
+}
+
+/**
+ * Supported output formats
+ */
+export const outputFormats = [
+  'skill',
+  ...Object.keys(outputAdapters),
+] as OutputFormat[]
+
+/**
+ * Check whether a string names an output format
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (outputFormats as string[]).includes(value)
+}
+
+/**
+ * Get where a format writes a skill, relative to the workspace root
+ * Returns undefined for plain skill directories
+ */
+export function getAgentOutputPath(
+  format: OutputFormat,
+  skillName: string,
+  workspaceRoot: string
+): string | undefined {
+  if (format === 'skill') {
+    return undefined
+  }
+
+  return relative(
+    workspaceRoot,
+    outputAdapters[format].getPath(workspaceRoot, skillName)
+  )
+}
+
+/**
+ * Write a rendered skill in an agent's native format
+ * The skill directory stays the source of truth; this is regenerated from
+ * its SKILL.md on every install and update
+ */
+export function writeAgentOutput(
+  format: OutputFormat,
+  skillName: string,
+  skillDir: string,
+  workspaceRoot: string
+): void {
+  if (format === 'skill') {
+    return
+  }
+
+  const document = readSkillDocument(skillDir)
+  if (!document) {
+    throw new Error(
+      `Cannot write ${format} output: ${skillDir} has no SKILL.md`
+    )
+  }
+
+  const hasSupportingFiles = readdirSync(skillDir).some(
+    (entry) => entry !== 'SKILL.md'
+  )
+
+  outputAdapters[format].write(workspaceRoot, {
+    name: skillName,
+    description: unquote(document.frontmatter.description),
+    globs: unquote(document.frontmatter.globs),
+    body: document.body,
+    filesDir: hasSupportingFiles
+      ? relative(workspaceRoot, skillDir)
+      : undefined,
+  })
+}
+
+/**
+ * Remove a skill's native output written by writeAgentOutput
+ */
+export function removeAgentOutput(
+  format: OutputFormat,
+  skillName: string,
+  workspaceRoot: string
+): void {
+  if (format !== 'skill') {
+    outputAdapters[format].remove(workspaceRoot, skillName)
+  }
+}
+
+/**
+ * Markdown body with a pointer to the skill's supporting files
+ */
+function formatBody(skill: NativeSkill): string {
+  const body = skill.body.trimEnd()
+
+  return skill.filesDir
+    ? `${body}\n\nSupporting files for this skill are in \`${skill.filesDir}\`.\n`
+    : `${body}\n`
+}
+
+/**
+ * Markers delimiting a skill's section in a shared instructions file
+ */
+function getSectionMarkers(skillName: string): [string, string] {
+  return [
+    `<!-- taito:begin ${skillName} -->`,
+    `<!-- taito:end ${skillName} -->`,
+  ]
+}
+
+/**
+ * Find a skill's section, including its markers
+ */
+function findSection(
+  content: string,
+  skillName: string
+): { start: number; end: number } | null {
+  const [begin, end] = getSectionMarkers(skillName)
+  const start = content.indexOf(begin)
+  const endIndex = content.indexOf(end, start)
+
+  if (start === -1 || endIndex === -1) {
+    return null
+  }
+
+  return { start, end: endIndex + end.length }
+}
+
+/**
+ * Add or replace a skill's section, leaving the rest of the file untouched
+ */
+function upsertSection(filePath: string, skill: NativeSkill): void {
+  const [begin, end] = getSectionMarkers(skill.name)
+  const description = skill.description ? `${skill.description}\n\n` : ''
+  const section = `${begin}\n## ${skill.name}\n\n${description}${formatBody(skill)}${end}`
+
+  const content = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : ''
+  const existing = findSection(content, skill.name)
+
+  let updated: string
+  if (existing) {
+    updated =
+      content.slice(0, existing.start) + section + content.slice(existing.end)
+  } else if (content.trim()) {
+    updated = `${content.trimEnd()}\n\n${section}\n`
+  } else {
+    updated = `${section}\n`
+  }
+
+  mkdirSync(dirname(filePath), { recursive: true })
+  writeFileSync(filePath, updated)
+}
+
+/**
+ * Remove a skill's section, deleting the file if nothing else is left
+ */
+function removeSection(filePath: string, skillName: string): void {
+  if (!existsSync(filePath)) {
+    return
+  }
+
+  const content = readFileSync(filePath, 'utf-8')
+  const existing = findSection(content, skillName)
+  if (!existing) {
+    return
+  }
+
+  const before = content.slice(0, existing.start).trimEnd()
+  const after = content.slice(existing.end).trimStart()
+  const updated = [before, after].filter(Boolean).join('\n\n')
+
+  if (updated) {
+    writeFileSync(filePath, `${updated}\n`)
+  } else {
+    rmSync(filePath)
+  }
+}
+
+/**
+ * Strip YAML quotes from a frontmatter value
+ */
+function unquote(value?: string): string | undefined {
+  return value?.replace(/^["']|["']$/g, '')
+}
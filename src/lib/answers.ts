@@ -0,0 +1,180 @@
+import { existsSync, readFileSync, rmSync } from 'node:fs'
+import type {
+  AnswerLevel,
+  AnswerStore,
+  SkillConfig,
+  VariableValues,
+} from '../types.js'
+import { writeFileAtomic } from './atomic.js'
+import { isVariableAsked } from './config.js'
+import { getUserAnswersPath, getWorkspaceAnswersPath } from './paths.js'
+
+/**
+ * Answer store levels, from the one whose answers win
+ */
+export const answerLevels: AnswerLevel[] = ['workspace', 'user']
+
+/**
+ * Check if a string is an answer store level
+ */
+export function isAnswerLevel(value: string): value is AnswerLevel {
+  return (answerLevels as string[]).includes(value)
+}
+
+/**
+ * Get the path of the answer store at a level
+ */
+export function getAnswerStorePath(
+  level: AnswerLevel,
+  workspaceRoot?: string
+): string {
+  return level === 'user'
+    ? getUserAnswersPath()
+    : getWorkspaceAnswersPath(workspaceRoot)
+}
+
+/**
+ * Read the answer store at a level
+ * A missing store is empty; a corrupted one is an error, so remembering
+ * doesn't overwrite answers that could still be recovered by hand
+ */
+export function readAnswerStore(
+  level: AnswerLevel,
+  workspaceRoot?: string
+): AnswerStore {
+  const storePath = getAnswerStorePath(level, workspaceRoot)
+
+  if (!existsSync(storePath)) {
+    return { variables: {}, skills: {} }
+  }
+
+  let store: Partial<AnswerStore>
+  try {
+    store = JSON.parse(readFileSync(storePath, 'utf-8'))
+  } catch (error) {
+    const err = error as Error
+    throw new Error(`Failed to parse ${storePath}: ${err.message}`)
+  }
+
+  return { variables: store.variables ?? {}, skills: store.skills ?? {} }
+}
+
+/**
+ * Write the answer store at a level, removing it once it is empty
+ */
+export function writeAnswerStore(
+  level: AnswerLevel,
+  store: AnswerStore,
+  workspaceRoot?: string
+): void {
+  const storePath = getAnswerStorePath(level, workspaceRoot)
+
+  if (
+    Object.keys(store.variables).length === 0 &&
+    Object.keys(store.skills).length === 0
+  ) {
+    rmSync(storePath, { force: true })
+    return
+  }
+
+  writeFileAtomic(storePath, JSON.stringify(store, null, 2) + '\n')
+}
+
+/**
+ * Get the remembered answers for a skill, or only those remembered by
+ * variable name
+ * Workspace answers win over the user's, and answers remembered for the
+ * skill win over those remembered by variable name
+ */
+export function getRememberedAnswers(
+  skillName: string | undefined,
+  workspaceRoot?: string,
+  levels: AnswerLevel[] = answerLevels
+): VariableValues {
+  const values: VariableValues = {}
+
+  for (const level of [...levels].reverse()) {
+    const store = readAnswerStore(level, workspaceRoot)
+    Object.assign(
+      values,
+      store.variables,
+      skillName ? store.skills[skillName] : undefined
+    )
+  }
+
+  return values
+}
+
+/**
+ * Save a skill's answers to the answer store, by variable name or, with
+ * perSkill, for that skill only
+ * Secrets and variables skipped by their `when` expression are left out
+ */
+export function rememberAnswers(
+  config: SkillConfig,
+  values: VariableValues,
+  level: AnswerLevel,
+  perSkill: boolean,
+  workspaceRoot?: string
+): void {
+  const answers = Object.fromEntries(
+    Object.entries(values).filter(([key]) => {
+      const variable = config.variables[key]
+      return (
+        variable &&
+        variable.type !== 'secret' &&
+        isVariableAsked(variable, values)
+      )
+    })
+  )
+
+  const store = readAnswerStore(level, workspaceRoot)
+  if (perSkill) {
+    const skillName = config.meta.name
+    store.skills[skillName] = { ...store.skills[skillName], ...answers }
+  } else {
+    Object.assign(store.variables, answers)
+  }
+  writeAnswerStore(level, store, workspaceRoot)
+}
+
+/**
+ * Remove remembered answers from a store
+ * Without names every answer goes; with a skill, only the answers
+ * remembered for it. Returns the number of answers removed
+ */
+export function forgetAnswers(
+  level: AnswerLevel,
+  names: string[] | undefined,
+  skillName: string | undefined,
+  workspaceRoot?: string
+): number {
+  const store = readAnswerStore(level, workspaceRoot)
+  let removed = 0
+
+  const forget = (values: VariableValues) => {
+    for (const key of Object.keys(values)) {
+      if (!names || names.includes(key)) {
+        delete values[key]
+        removed++
+      }
+    }
+  }
+
+  if (!skillName) {
+    forget(store.variables)
+  }
+  for (const [name, values] of Object.entries(store.skills)) {
+    if (!skillName || name === skillName) {
+      forget(values)
+      if (Object.keys(values).length === 0) {
+        delete store.skills[name]
+      }
+    }
+  }
+
+  if (removed > 0) {
+    writeAnswerStore(level, store, workspaceRoot)
+  }
+  return removed
+}
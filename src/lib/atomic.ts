@@ -0,0 +1,179 @@
+import {
+  chmodSync,
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { basename, dirname, join } from 'node:path'
+import { getWorkspaceLockPath } from './paths.js'
+
+// Workspace locks held by this process, released on exit
+const heldLocks = new Set<string>()
+
+/**
+ * Write a file atomically: write a temp file next to it, then rename
+ * Readers see either the old or the new content, never a partial write
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  mkdirSync(dirname(filePath), { recursive: true })
+
+  try {
+    writeFileSync(tempPath, content)
+    renameSync(tempPath, filePath)
+  } catch (error) {
+    rmSync(tempPath, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Replace a directory atomically
+ * `write` fills a staging directory next to the target, which is swapped
+ * into place with a rename once complete. The previous version is kept
+ * aside until `finish` (e.g., recording metadata) succeeds, so any
+ * failure restores it
+ */
+export async function replaceDir<T>(
+  targetDir: string,
+  write: (stagingDir: string) => Promise<T> | T,
+  finish?: (result: T) => Promise<void> | void
+): Promise<T> {
+  mkdirSync(dirname(targetDir), { recursive: true })
+
+  // Siblings of the target stay on the same filesystem, so renames are atomic
+  const prefix = join(dirname(targetDir), `.${basename(targetDir)}`)
+  const stagingDir = mkdtempSync(`${prefix}.staging-`)
+  // mkdtemp creates a private directory, give it the usual permissions
+  chmodSync(stagingDir, 0o777 & ~process.umask())
+  const backupDir = `${prefix}.backup-${process.pid}`
+  let backedUp = false
+  let swapped = false
+
+  try {
+    const result = await write(stagingDir)
+
+    if (pathExists(targetDir)) {
+      rmSync(backupDir, { recursive: true, force: true })
+      renameSync(targetDir, backupDir)
+      backedUp = true
+    }
+
+    renameSync(stagingDir, targetDir)
+    swapped = true
+
+    await finish?.(result)
+    return result
+  } catch (error) {
+    // Put the previous version back
+    if (swapped) {
+      rmSync(targetDir, { recursive: true, force: true })
+    }
+    if (backedUp) {
+      renameSync(backupDir, targetDir)
+      backedUp = false
+    }
+    throw error
+  } finally {
+    rmSync(stagingDir, { recursive: true, force: true })
+    if (backedUp) {
+      rmSync(backupDir, { recursive: true, force: true })
+    }
+  }
+}
+
+/**
+ * Guard a workspace against concurrent taito processes
+ * The lock file holds this process's pid and is removed when it exits.
+ * Locks left behind by processes that are no longer running are taken over
+ */
+export function lockWorkspace(workspaceRoot: string): void {
+  const lockPath = getWorkspaceLockPath(workspaceRoot)
+  if (heldLocks.has(lockPath)) {
+    return
+  }
+
+  mkdirSync(dirname(lockPath), { recursive: true })
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      writeFileSync(lockPath, `${process.pid}\n`, { flag: 'wx' })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error
+      }
+
+      const pid = readLockPid(lockPath)
+      if (pid && isRunning(pid)) {
+        throw new Error(
+          `Another taito process (pid ${pid}) is working in this workspace. If it isn't, remove ${lockPath}.`
+        )
+      }
+
+      // Stale lock from a process that was killed
+      rmSync(lockPath, { force: true })
+      continue
+    }
+
+    if (heldLocks.size === 0) {
+      process.on('exit', releaseLocks)
+    }
+    heldLocks.add(lockPath)
+    return
+  }
+
+  throw new Error(`Failed to lock workspace: ${lockPath}`)
+}
+
+/**
+ * Remove the workspace locks held by this process
+ */
+function releaseLocks(): void {
+  for (const lockPath of heldLocks) {
+    if (readLockPid(lockPath) === process.pid) {
+      rmSync(lockPath, { force: true })
+    }
+  }
+  heldLocks.clear()
+}
+
+/**
+ * Read the pid in a lock file, or null if it can't be read
+ */
+function readLockPid(lockPath: string): number | null {
+  try {
+    const pid = Number.parseInt(readFileSync(lockPath, 'utf-8'), 10)
+    return Number.isNaN(pid) ? null : pid
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check whether a process is running
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // The process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Check whether a path exists, including dangling symlinks
+ */
+function pathExists(path: string): boolean {
+  try {
+    lstatSync(path)
+    return true
+  } catch {
+    return false
+  }
+}
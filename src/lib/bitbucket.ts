@@ -0,0 +1,108 @@
+import type { SourceProvider } from '../types.js'
+import {
+  downloadArchive,
+  fetchJson,
+  isCommitSha,
+  parseRepositoryPath,
+  trimBaseUrl,
+} from './remote.js'
+
+/**
+ * Get the Bitbucket web URL, which serves repository archives
+ */
+function getBitbucketUrl(): string {
+  return trimBaseUrl(process.env.TAITO_BITBUCKET_URL ?? 'https://bitbucket.org')
+}
+
+/**
+ * Get the Bitbucket REST API base URL
+ */
+function getBitbucketApiUrl(): string {
+  return trimBaseUrl(
+    process.env.TAITO_BITBUCKET_API_URL ?? 'https://api.bitbucket.org/2.0'
+  )
+}
+
+/**
+ * Auth headers for Bitbucket requests
+ * Supports private repos with BITBUCKET_TOKEN (a repository or workspace access token)
+ */
+function getAuthHeaders(): Record<string, string> {
+  return process.env.BITBUCKET_TOKEN
+    ? { Authorization: `Bearer ${process.env.BITBUCKET_TOKEN}` }
+    : {}
+}
+
+/**
+ * Bitbucket Cloud
+ * Sources: bitbucket:workspace/repo[/path/to/skill][@ref]
+ */
+export const bitbucketProvider: SourceProvider = {
+  type: 'bitbucket',
+  name: 'Bitbucket',
+  tokenEnv: 'BITBUCKET_TOKEN',
+
+  matches: (source) => source.startsWith('bitbucket:'),
+
+  parse: (source, ref) =>
+    parseRepositoryPath('bitbucket', source.slice('bitbucket:'.length), ref),
+
+  getRepositoryId: (source) =>
+    `${new URL(getBitbucketUrl()).hostname}/${source.owner}/${source.repo}`,
+
+  resolveRef: async (source) => {
+    const { owner, repo, ref } = source
+
+    // Full commit SHAs are already immutable
+    if (ref && isCommitSha(ref)) {
+      return ref.toLowerCase()
+    }
+
+    const repository = `${getBitbucketApiUrl()}/repositories/${owner}/${repo}`
+
+    // Without a ref, use the repository's main branch
+    const branch =
+      ref ??
+      (
+        await fetchJson<{ mainbranch: { name: string } }>(
+          repository,
+          getAuthHeaders(),
+          `${owner}/${repo}`
+        )
+      ).mainbranch.name
+
+    const commit = await fetchJson<{ hash: string }>(
+      `${repository}/commit/${encodeURIComponent(branch)}`,
+      getAuthHeaders(),
+      `${owner}/${repo}@${branch}`
+    )
+
+    return commit.hash
+  },
+
+  listTags: async (source) => {
+    const { owner, repo } = source
+    const tags: string[] = []
+    let next: string | undefined =
+      `${getBitbucketApiUrl()}/repositories/${owner}/${repo}/refs/tags?pagelen=100`
+
+    while (next) {
+      const page: { values: { name: string }[]; next?: string } =
+        await fetchJson(next, getAuthHeaders(), `tags of ${owner}/${repo}`)
+      tags.push(...page.values.map((tag) => tag.name))
+      next = page.next
+    }
+
+    return tags
+  },
+
+  download: (source, commit) => {
+    const { owner, repo } = source
+
+    return downloadArchive(
+      `${getBitbucketUrl()}/${owner}/${repo}/get/${commit}.tar.gz`,
+      getAuthHeaders(),
+      `${owner}/${repo}@${commit}`
+    )
+  },
+}
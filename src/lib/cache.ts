@@ -0,0 +1,236 @@
+import {
+  cpSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+
+/**
+ * A cached repository snapshot
+ */
+export interface CacheEntry {
+  repository: string // repository identifier (e.g., "github.com/owner/repo")
+  commit: string
+  path: string
+  size: number // bytes
+  cachedAt: Date
+}
+
+/**
+ * Get the cache directory
+ * Defaults to ~/.cache/taito, respecting XDG_CACHE_HOME and TAITO_CACHE_DIR
+ */
+export function getCacheDir(): string {
+  if (process.env.TAITO_CACHE_DIR) {
+    return process.env.TAITO_CACHE_DIR
+  }
+
+  const cacheHome = process.env.XDG_CACHE_HOME ?? join(homedir(), '.cache')
+  return join(cacheHome, 'taito')
+}
+
+/**
+ * Get the cache directory for a repository
+ */
+function getRepoCacheDir(repository: string): string {
+  return join(getCacheDir(), ...repository.split('/'))
+}
+
+/**
+ * Get the cached snapshot of a repository at a commit, if present
+ */
+export function getCachedRepo(
+  repository: string,
+  commit: string
+): string | null {
+  const cachedPath = join(getRepoCacheDir(repository), commit)
+  return existsSync(cachedPath) ? cachedPath : null
+}
+
+/**
+ * Move an extracted repository into the cache
+ * Returns the cached path
+ */
+export function storeInCache(
+  repository: string,
+  commit: string,
+  extractedDir: string
+): string {
+  const cachedPath = join(getRepoCacheDir(repository), commit)
+  const partialPath = `${cachedPath}.partial-${process.pid}`
+
+  mkdirSync(dirname(cachedPath), { recursive: true })
+
+  try {
+    renameSync(extractedDir, partialPath)
+  } catch {
+    // Temp dir is on another device - copy instead
+    cpSync(extractedDir, partialPath, { recursive: true })
+  }
+
+  // Another process may have cached the same commit in the meantime
+  if (existsSync(cachedPath)) {
+    rmSync(partialPath, { recursive: true, force: true })
+  } else {
+    renameSync(partialPath, cachedPath)
+  }
+
+  return cachedPath
+}
+
+/**
+ * Read the last resolved commit for each ref of a repository
+ */
+function readCachedRefs(repository: string): Record<string, string> {
+  const refsPath = join(getRepoCacheDir(repository), 'refs.json')
+
+  if (!existsSync(refsPath)) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(readFileSync(refsPath, 'utf-8')) as Record<string, string>
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Remember which commit a ref resolved to, for offline use
+ */
+export function recordCachedRef(
+  repository: string,
+  ref: string,
+  commit: string
+): void {
+  const refs = readCachedRefs(repository)
+  refs[ref] = commit
+
+  const repoCacheDir = getRepoCacheDir(repository)
+  mkdirSync(repoCacheDir, { recursive: true })
+  writeFileSync(join(repoCacheDir, 'refs.json'), JSON.stringify(refs, null, 2))
+}
+
+/**
+ * Resolve a ref to a commit from the cache only
+ * Returns null if the ref was never resolved
+ */
+export function resolveCachedRef(
+  repository: string,
+  ref: string
+): string | null {
+  if (/^[0-9a-f]{40}$/i.test(ref)) {
+    return ref.toLowerCase()
+  }
+
+  return readCachedRefs(repository)[ref] ?? null
+}
+
+/**
+ * List the refs of a repository that were resolved before
+ */
+export function listCachedRefs(repository: string): string[] {
+  return Object.keys(readCachedRefs(repository))
+}
+
+/**
+ * List all cached repository snapshots
+ */
+export function listCacheEntries(): CacheEntry[] {
+  const entries: CacheEntry[] = []
+
+  const walk = (dir: string, segments: string[]) => {
+    for (const name of readDirNames(dir)) {
+      const path = join(dir, name)
+
+      // Snapshots are named after their commit, anything else is a path segment
+      if (/^[0-9a-f]{40}$/.test(name)) {
+        entries.push({
+          repository: segments.join('/'),
+          commit: name,
+          path,
+          size: getDirectorySize(path),
+          cachedAt: statSync(path).mtime,
+        })
+      } else if (!name.includes('.partial-')) {
+        walk(path, [...segments, name])
+      }
+    }
+  }
+
+  walk(getCacheDir(), [])
+  return entries
+}
+
+/**
+ * Check whether a repository matches a filter such as "owner/repo",
+ * "github.com/owner" or "gitlab.example.com/group/repo"
+ */
+function matchesRepository(repository: string, filter: string): boolean {
+  const normalized = filter.replace(/^\/+|\/+$/g, '')
+  return (
+    repository === normalized ||
+    repository.startsWith(`${normalized}/`) ||
+    repository.endsWith(`/${normalized}`) ||
+    repository.includes(`/${normalized}/`)
+  )
+}
+
+/**
+ * Remove cached snapshots, optionally only for matching repositories
+ * Returns the number of removed snapshots
+ */
+export function cleanCache(filter?: string): number {
+  if (!filter) {
+    const count = listCacheEntries().length
+    rmSync(getCacheDir(), { recursive: true, force: true })
+    return count
+  }
+
+  const entries = listCacheEntries().filter((entry) =>
+    matchesRepository(entry.repository, filter)
+  )
+
+  for (const repository of new Set(entries.map((entry) => entry.repository))) {
+    rmSync(getRepoCacheDir(repository), { recursive: true, force: true })
+  }
+
+  return entries.length
+}
+
+/**
+ * List subdirectory names, or an empty list if the directory doesn't exist
+ */
+function readDirNames(dir: string): string[] {
+  try {
+    return readdirSync(dir).filter((entry) =>
+      lstatSync(join(dir, entry)).isDirectory()
+    )
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Get the total size of all files in a directory
+ * Symlinks are not followed, so a dangling one doesn't break the listing
+ */
+function getDirectorySize(dir: string): number {
+  let size = 0
+
+  for (const entry of readdirSync(dir)) {
+    const fullPath = join(dir, entry)
+    const stat = lstatSync(fullPath)
+    size += stat.isDirectory() ? getDirectorySize(fullPath) : stat.size
+  }
+
+  return size
+}
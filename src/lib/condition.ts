@@ -0,0 +1,358 @@
+import type { VariableValue, VariableValues } from '../types.js'
+
+/**
+ * A parsed `when` expression
+ */
+export type Condition =
+  | { type: 'literal'; value: VariableValue }
+  | { type: 'variable'; name: string }
+  | { type: 'list'; items: Condition[] }
+  | { type: 'not'; operand: Condition }
+  | {
+      type: 'logical'
+      operator: '&&' | '||'
+      left: Condition
+      right: Condition
+    }
+  | {
+      type: 'compare'
+      operator: CompareOperator
+      left: Condition
+      right: Condition
+    }
+
+type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in'
+
+interface Token {
+  type: 'string' | 'number' | 'word' | 'operator'
+  value: string
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')']
+const PUNCTUATION = ['[', ']', ',']
+
+/**
+ * Parse a `when` expression, e.g. "LANGUAGE == 'typescript'" or
+ * "'i18n' in FOCUS_AREAS && !USE_LEGACY"
+ * Supports string, number and boolean literals, lists, variable names,
+ * comparisons, `in`/`not in`, `&&`/`and`, `||`/`or`, `!`/`not` and
+ * parentheses. Nothing is executed, so expressions from skills are safe
+ */
+export function parseCondition(expression: string): Condition {
+  const tokens = tokenize(expression)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const next = () => tokens[position++]
+  const accept = (...values: string[]) => {
+    const token = peek()
+    if (
+      token &&
+      (token.type === 'operator' || token.type === 'word') &&
+      values.includes(token.value)
+    ) {
+      position++
+      return token.value
+    }
+    return undefined
+  }
+  const expect = (value: string) => {
+    if (!accept(value)) {
+      throw new Error(`Expected '${value}' in '${expression}'`)
+    }
+  }
+
+  const parseOr = (): Condition => {
+    let left = parseAnd()
+    while (accept('||', 'or')) {
+      left = { type: 'logical', operator: '||', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  const parseAnd = (): Condition => {
+    let left = parseNot()
+    while (accept('&&', 'and')) {
+      left = { type: 'logical', operator: '&&', left, right: parseNot() }
+    }
+    return left
+  }
+
+  const parseNot = (): Condition => {
+    if (accept('!', 'not')) {
+      return { type: 'not', operand: parseNot() }
+    }
+    return parseComparison()
+  }
+
+  const parseComparison = (): Condition => {
+    const left = parsePrimary()
+
+    let operator: CompareOperator | undefined = accept(
+      '==',
+      '!=',
+      '<=',
+      '>=',
+      '<',
+      '>',
+      'in'
+    ) as CompareOperator | undefined
+    if (
+      !operator &&
+      peek()?.value === 'not' &&
+      tokens[position + 1]?.value === 'in'
+    ) {
+      position += 2
+      operator = 'not in'
+    }
+
+    return operator
+      ? { type: 'compare', operator, left, right: parsePrimary() }
+      : left
+  }
+
+  const parsePrimary = (): Condition => {
+    const token = next()
+    if (!token) {
+      throw new Error(`Unexpected end of '${expression}'`)
+    }
+
+    switch (token.type) {
+      case 'string':
+        return { type: 'literal', value: token.value }
+      case 'number':
+        return { type: 'literal', value: Number(token.value) }
+      case 'word':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true' }
+        }
+        if (['and', 'or', 'not', 'in'].includes(token.value)) {
+          break
+        }
+        return { type: 'variable', name: token.value }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseOr()
+          expect(')')
+          return inner
+        }
+        if (token.value === '[') {
+          const items: Condition[] = []
+          while (!accept(']')) {
+            items.push(parsePrimary())
+            if (!accept(',')) {
+              expect(']')
+              break
+            }
+          }
+          return { type: 'list', items }
+        }
+    }
+
+    throw new Error(`Unexpected '${token.value}' in '${expression}'`)
+  }
+
+  const condition = parseOr()
+  if (position < tokens.length) {
+    throw new Error(`Unexpected '${peek().value}' in '${expression}'`)
+  }
+  return condition
+}
+
+/**
+ * Evaluate a `when` expression against the answers so far
+ * Unanswered variables are undefined, which is falsy and equals nothing
+ */
+export function evaluateCondition(
+  expression: string,
+  values: VariableValues
+): boolean {
+  return isTruthy(evaluate(parseCondition(expression), values))
+}
+
+/**
+ * List the variable names a `when` expression refers to
+ */
+export function getConditionVariables(expression: string): string[] {
+  const names = new Set<string>()
+
+  const visit = (condition: Condition) => {
+    switch (condition.type) {
+      case 'variable':
+        names.add(condition.name)
+        break
+      case 'list':
+        condition.items.forEach(visit)
+        break
+      case 'not':
+        visit(condition.operand)
+        break
+      case 'logical':
+      case 'compare':
+        visit(condition.left)
+        visit(condition.right)
+        break
+    }
+  }
+
+  visit(parseCondition(expression))
+  return [...names]
+}
+
+type Value = VariableValue | Value[] | undefined
+
+/**
+ * Evaluate a parsed expression
+ */
+function evaluate(condition: Condition, values: VariableValues): Value {
+  switch (condition.type) {
+    case 'literal':
+      return condition.value
+    case 'variable':
+      return values[condition.name]
+    case 'list':
+      return condition.items.map((item) => evaluate(item, values))
+    case 'not':
+      return !isTruthy(evaluate(condition.operand, values))
+    case 'logical': {
+      const left = isTruthy(evaluate(condition.left, values))
+      return condition.operator === '&&'
+        ? left && isTruthy(evaluate(condition.right, values))
+        : left || isTruthy(evaluate(condition.right, values))
+    }
+    case 'compare':
+      return compare(
+        condition.operator,
+        evaluate(condition.left, values),
+        evaluate(condition.right, values)
+      )
+  }
+}
+
+/**
+ * Apply a comparison operator
+ * Ordering only applies to two numbers or two strings
+ */
+function compare(
+  operator: CompareOperator,
+  left: Value,
+  right: Value
+): boolean {
+  switch (operator) {
+    case '==':
+      return isEqual(left, right)
+    case '!=':
+      return !isEqual(left, right)
+    case 'in':
+      return contains(right, left)
+    case 'not in':
+      return !contains(right, left)
+  }
+
+  if (
+    !(typeof left === 'number' && typeof right === 'number') &&
+    !(typeof left === 'string' && typeof right === 'string')
+  ) {
+    return false
+  }
+
+  switch (operator) {
+    case '<':
+      return left < right
+    case '<=':
+      return left <= right
+    case '>':
+      return left > right
+    case '>=':
+      return left >= right
+  }
+}
+
+/**
+ * Check whether a list holds a value, or a string contains a substring
+ */
+function contains(container: Value, item: Value): boolean {
+  if (Array.isArray(container)) {
+    return container.some((entry) => isEqual(entry, item))
+  }
+  if (typeof container === 'string' && typeof item === 'string') {
+    return container.includes(item)
+  }
+  return false
+}
+
+/**
+ * Compare two values, lists item by item
+ */
+function isEqual(left: Value, right: Value): boolean {
+  if (left === undefined || right === undefined) {
+    return false
+  }
+  return JSON.stringify(left) === JSON.stringify(right)
+}
+
+/**
+ * Truthiness of a value; empty strings and empty lists are false
+ */
+function isTruthy(value: Value): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < expression.length) {
+    const char = expression[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (char === "'" || char === '"') {
+      let value = ''
+      i++
+      while (i < expression.length && expression[i] !== char) {
+        value += expression[i] === '\\' ? expression[++i] : expression[i]
+        i++
+      }
+      if (i >= expression.length) {
+        throw new Error(`Unterminated string in '${expression}'`)
+      }
+      i++
+      tokens.push({ type: 'string', value })
+      continue
+    }
+
+    const number = expression.slice(i).match(/^-?\d+(\.\d+)?/)
+    if (number) {
+      tokens.push({ type: 'number', value: number[0] })
+      i += number[0].length
+      continue
+    }
+
+    const word = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)
+    if (word) {
+      tokens.push({ type: 'word', value: word[0] })
+      i += word[0].length
+      continue
+    }
+
+    const operator = [...OPERATORS, ...PUNCTUATION].find((op) =>
+      expression.startsWith(op, i)
+    )
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator })
+      i += operator.length
+      continue
+    }
+
+    throw new Error(`Unexpected '${char}' in '${expression}'`)
+  }
+
+  return tokens
+}
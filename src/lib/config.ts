@@ -5,8 +5,10 @@ import type {
   SkillConfig,
   SkillMeta,
   Variable,
+  VariableValue,
   VariableValues,
 } from '../types.js'
+import { evaluateCondition, getConditionVariables } from './condition.js'
 
 /**
  * Parse a skill.config.toml file
@@ -23,7 +25,12 @@ export function parseSkillConfig(configPath: string): SkillConfig {
     parsed.variables as Record<string, unknown> | undefined
   )
 
-  return { meta, variables }
+  // Parse files section
+  const include = parseInclude(
+    parsed.files as Record<string, unknown> | undefined
+  )
+
+  return { meta, variables, include }
 }
 
 /**
@@ -47,6 +54,27 @@ function parseMeta(meta: Record<string, unknown> | undefined): SkillMeta {
   }
 }
 
+/**
+ * Parse the include list of the [files] section
+ */
+function parseInclude(
+  files: Record<string, unknown> | undefined
+): string[] | undefined {
+  if (!files || typeof files !== 'object' || files.include === undefined) {
+    return undefined
+  }
+
+  const include = files.include
+  if (
+    !Array.isArray(include) ||
+    !include.every((pattern) => typeof pattern === 'string')
+  ) {
+    throw new Error("'include' in [files] section must be an array of strings")
+  }
+
+  return include
+}
+
 /**
  * Parse the [variables] section
  */
@@ -89,14 +117,35 @@ function parseVariables(
         }
         break
 
+      case 'number':
+        result[key] = {
+          type: 'number',
+          prompt,
+          required,
+          default: parseNumberField(varDef.default, 'default', key),
+          min: parseNumberField(varDef.min, 'min', key),
+          max: parseNumberField(varDef.max, 'max', key),
+          integer: varDef.integer as boolean | undefined,
+        }
+        break
+
       case 'choice':
-        const options = parseChoiceOptions(varDef.options, key)
         result[key] = {
           type: 'choice',
           prompt,
           required,
           default: varDef.default as string | undefined,
-          options,
+          options: parseChoiceOptions(varDef.options, key),
+        }
+        break
+
+      case 'multichoice':
+        result[key] = {
+          type: 'multichoice',
+          prompt,
+          required,
+          default: varDef.default as string[] | undefined,
+          options: parseChoiceOptions(varDef.options, key),
         }
         break
 
@@ -119,14 +168,98 @@ function parseVariables(
         }
         break
 
+      case 'path':
+        if (
+          varDef.kind !== undefined &&
+          varDef.kind !== 'file' &&
+          varDef.kind !== 'directory'
+        ) {
+          throw new Error(
+            `Variable '${key}' has invalid 'kind' (expected "file" or "directory")`
+          )
+        }
+        result[key] = {
+          type: 'path',
+          prompt,
+          required,
+          default: varDef.default as string | undefined,
+          kind: varDef.kind,
+          exists: varDef.exists as boolean | undefined,
+        }
+        break
+
+      case 'secret':
+        // Secrets are never saved, so a default would be written to the
+        // skill's source instead
+        if (varDef.default !== undefined) {
+          throw new Error(`Secret variable '${key}' can't have a default`)
+        }
+        result[key] = {
+          type: 'secret',
+          prompt,
+          required,
+          validate: varDef.validate as string | undefined,
+        }
+        break
+
       default:
         throw new Error(`Unknown variable type '${type}' for '${key}'`)
     }
+
+    if (varDef.when !== undefined) {
+      result[key].when = parseWhen(varDef.when, key, Object.keys(result))
+    }
   }
 
   return result
 }
 
+/**
+ * Parse a variable's `when` expression
+ * It can only refer to variables asked before it
+ */
+function parseWhen(when: unknown, varName: string, declared: string[]): string {
+  if (typeof when !== 'string') {
+    throw new Error(`'when' of variable '${varName}' must be a string`)
+  }
+
+  let names: string[]
+  try {
+    names = getConditionVariables(when)
+  } catch (error) {
+    throw new Error(
+      `Invalid 'when' for variable '${varName}': ${(error as Error).message}`
+    )
+  }
+
+  for (const name of names) {
+    if (name === varName || !declared.includes(name)) {
+      throw new Error(
+        `'when' of variable '${varName}' refers to '${name}', which isn't asked before it`
+      )
+    }
+  }
+
+  return when
+}
+
+/**
+ * Parse an optional numeric field of a variable
+ */
+function parseNumberField(
+  value: unknown,
+  field: string,
+  varName: string
+): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  if (typeof value !== 'number') {
+    throw new Error(`'${field}' of variable '${varName}' must be a number`)
+  }
+  return value
+}
+
 /**
  * Parse choice options array
  */
@@ -180,6 +313,8 @@ function interpolateString(template: string, values: VariableValues): string {
 /**
  * Extract default values from config with interpolation support
  * Processes variables in order so later defaults can reference earlier values
+ * Variables skipped by their `when` expression get their default, as they
+ * do when prompting
  */
 export function getDefaultValues(
   config: SkillConfig,
@@ -189,47 +324,219 @@ export function getDefaultValues(
 
   for (const [key, variable] of Object.entries(config.variables)) {
     // If preset value exists, use it (allows interpolation to work with user-provided values)
-    if (presetValues && key in presetValues) {
+    if (
+      presetValues &&
+      key in presetValues &&
+      isVariableAsked(variable, values)
+    ) {
       values[key] = presetValues[key]
       continue
     }
 
-    // Process default with interpolation
-    if (variable.default !== undefined) {
-      if (variable.type === 'string' && typeof variable.default === 'string') {
-        values[key] = interpolateString(variable.default, values)
-      } else if (
-        variable.type === 'choice' &&
-        typeof variable.default === 'string'
-      ) {
-        values[key] = interpolateString(variable.default, values)
-      } else {
-        values[key] = variable.default
-      }
+    const value = getDefaultValue(variable, values)
+    if (value !== undefined) {
+      values[key] = value
     }
   }
 
   return values
 }
 
+/**
+ * Get a variable's default, interpolated with the values so far
+ */
+export function getDefaultValue(
+  variable: Variable,
+  values: VariableValues
+): VariableValue | undefined {
+  // Secrets have no default, but templates can still reference them
+  if (variable.type === 'secret') {
+    return ''
+  }
+
+  return typeof variable.default === 'string'
+    ? interpolateString(variable.default, values)
+    : variable.default
+}
+
+/**
+ * Check whether a variable is asked, given the values so far
+ * Variables whose `when` expression doesn't hold are skipped
+ */
+export function isVariableAsked(
+  variable: Variable,
+  values: VariableValues
+): boolean {
+  return !variable.when || evaluateCondition(variable.when, values)
+}
+
+/**
+ * List the asked variables an answers object doesn't cover, in order
+ * Secrets that aren't required are left empty, so they aren't listed
+ */
+export function getUnansweredVariables(
+  config: SkillConfig,
+  answers: VariableValues
+): string[] {
+  const values = getDefaultValues(config, answers)
+
+  return Object.entries(config.variables)
+    .filter(
+      ([key, variable]) =>
+        !(key in answers) &&
+        (variable.type !== 'secret' || !!variable.required) &&
+        isVariableAsked(variable, values)
+    )
+    .map(([key]) => key)
+}
+
+/**
+ * Remove the answers to secret variables, which are never saved in
+ * metadata or the lockfile
+ */
+export function omitSecrets(
+  config: SkillConfig,
+  values: VariableValues
+): VariableValues {
+  return Object.fromEntries(
+    Object.entries(values).filter(
+      ([key]) => config.variables[key]?.type !== 'secret'
+    )
+  )
+}
+
+/**
+ * Get the names of a config's secret variables
+ */
+export function getSecretVariables(config: SkillConfig): string[] {
+  return Object.keys(config.variables).filter(
+    (key) => config.variables[key].type === 'secret'
+  )
+}
+
 /**
  * Parse a preset config file (user-provided answers)
  */
 export function parsePresetConfig(configPath: string): VariableValues {
   const content = readFileSync(configPath, 'utf-8')
-  const parsed = parseToml(content)
+  return parseVariableValues(parseToml(content))
+}
 
+/**
+ * Extract variable values from parsed TOML, ignoring unsupported types
+ */
+export function parseVariableValues(
+  parsed: Record<string, unknown>
+): VariableValues {
   const values: VariableValues = {}
 
   for (const [key, value] of Object.entries(parsed)) {
     if (
       typeof value === 'string' ||
+      typeof value === 'number' ||
       typeof value === 'boolean' ||
       Array.isArray(value)
     ) {
-      values[key] = value as string | boolean | string[]
+      values[key] = value as VariableValue
     }
   }
 
   return values
 }
+
+/**
+ * Prefix of environment variables that answer variables, e.g.
+ * TAITO_VAR_LANGUAGE=typescript
+ */
+const ANSWER_ENV_PREFIX = 'TAITO_VAR_'
+
+/**
+ * Parse KEY=value assignments (from --set) into raw answers
+ */
+export function parseAnswerAssignments(
+  assignments: string[]
+): Record<string, string> {
+  const answers: Record<string, string> = {}
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=')
+    const key = assignment.slice(0, separator).trim()
+    if (separator === -1 || !key) {
+      throw new Error(`Invalid --set value: ${assignment}. Use KEY=value.`)
+    }
+    answers[key] = assignment.slice(separator + 1)
+  }
+
+  return answers
+}
+
+/**
+ * Collect the answers given on the command line and in TAITO_VAR_<KEY>
+ * environment variables, for the variables a skill declares
+ * Assignments win over the environment. Values are converted to the
+ * variable's type where they can be; the rest are left for validation
+ */
+export function getSuppliedAnswers(
+  config: SkillConfig,
+  assignments: Record<string, string>,
+  env: Record<string, string | undefined> = process.env
+): VariableValues {
+  const values: VariableValues = {}
+
+  for (const [key, variable] of Object.entries(config.variables)) {
+    const raw = assignments[key] ?? env[`${ANSWER_ENV_PREFIX}${key}`]
+    if (raw !== undefined) {
+      values[key] = parseAnswer(variable, raw)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Collect the answers to secret variables given on the command line and
+ * in TAITO_VAR_<KEY> environment variables
+ */
+export function getSuppliedSecrets(
+  config: SkillConfig,
+  assignments: Record<string, string>
+): VariableValues {
+  const secrets = getSecretVariables(config)
+  return Object.fromEntries(
+    Object.entries(getSuppliedAnswers(config, assignments)).filter(([key]) =>
+      secrets.includes(key)
+    )
+  )
+}
+
+/**
+ * Convert a textual answer to a variable's type
+ * Lists are comma-separated; booleans accept true/false, yes/no and 1/0
+ */
+function parseAnswer(variable: Variable, raw: string): VariableValue {
+  switch (variable.type) {
+    case 'number':
+      return raw.trim() && !Number.isNaN(Number(raw)) ? Number(raw) : raw
+
+    case 'boolean': {
+      const answer = raw.trim().toLowerCase()
+      if (['true', 'yes', '1'].includes(answer)) {
+        return true
+      }
+      if (['false', 'no', '0'].includes(answer)) {
+        return false
+      }
+      return raw
+    }
+
+    case 'array':
+    case 'multichoice':
+      return raw
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+
+    default:
+      return raw
+  }
+}
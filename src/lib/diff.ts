@@ -0,0 +1,272 @@
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+import { styleText } from 'node:util'
+import type { FileChange, FileDiff } from '../types.js'
+import { isBinary } from './edits.js'
+import { matchLines } from './merge.js'
+import { listFilesRecursive } from './render.js'
+
+/**
+ * A line of a diff: kept, removed or added
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+'
+  text: string
+}
+
+/**
+ * Compare newly rendered files with the files currently installed
+ * Files in currentDir that are not part of the new output are reported as
+ * removed. With trackedFiles (the files taito wrote), only those can be;
+ * files the user added are left alone
+ */
+export function compareOutput(
+  currentDir: string,
+  nextDir: string,
+  nextFiles: string[],
+  trackedFiles?: string[]
+): FileChange[] {
+  const changes: FileChange[] = []
+  const next = new Set(nextFiles)
+
+  for (const file of nextFiles) {
+    const currentPath = join(currentDir, file)
+
+    if (!existsSync(currentPath)) {
+      changes.push({ path: file, status: 'added' })
+      continue
+    }
+
+    const same = readFileSync(currentPath).equals(
+      readFileSync(join(nextDir, file))
+    )
+    changes.push({ path: file, status: same ? 'unchanged' : 'changed' })
+  }
+
+  if (existsSync(currentDir)) {
+    for (const file of listFilesRecursive(currentDir, currentDir)) {
+      if (!next.has(file) && (!trackedFiles || trackedFiles.includes(file))) {
+        changes.push({ path: file, status: 'removed' })
+      }
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Apply changes from a rendered directory to the installed skill directory
+ */
+export function applyChanges(
+  nextDir: string,
+  currentDir: string,
+  changes: FileChange[]
+): void {
+  for (const change of changes) {
+    const currentPath = join(currentDir, change.path)
+
+    switch (change.status) {
+      case 'added':
+      case 'changed':
+        mkdirSync(dirname(currentPath), { recursive: true })
+        copyFileSync(join(nextDir, change.path), currentPath)
+        break
+
+      case 'removed':
+        rmSync(currentPath, { force: true })
+        break
+    }
+  }
+}
+
+/**
+ * Summarize changes as counts per status (e.g., "2 changed, 1 added,
+ * 4 unchanged")
+ */
+export function summarizeChanges(changes: FileChange[]): string {
+  const counts = changes.reduce<Record<string, number>>((acc, change) => {
+    if (change.status !== 'unchanged') {
+      acc[change.status] = (acc[change.status] ?? 0) + 1
+    }
+    return acc
+  }, {})
+
+  const parts = Object.entries(counts).map(
+    ([status, count]) => `${count} ${status}`
+  )
+  const unchanged = changes.filter((c) => c.status === 'unchanged').length
+
+  if (parts.length === 0) {
+    return 'no changes'
+  }
+  return unchanged > 0
+    ? [...parts, `${unchanged} unchanged`].join(', ')
+    : parts.join(', ')
+}
+
+/**
+ * Add the content diff of every added, removed or changed file
+ */
+export function diffChanges(
+  currentDir: string,
+  nextDir: string,
+  changes: FileChange[]
+): FileDiff[] {
+  return changes.map((change) => {
+    if (change.status === 'unchanged') {
+      return change
+    }
+
+    const before =
+      change.status === 'added'
+        ? null
+        : readFileSync(join(currentDir, change.path))
+    const after =
+      change.status === 'removed'
+        ? null
+        : readFileSync(join(nextDir, change.path))
+
+    if ((before && isBinary(before)) || (after && isBinary(after))) {
+      return { ...change, binary: true }
+    }
+
+    return {
+      ...change,
+      diff: createUnifiedDiff(
+        change.path,
+        before?.toString('utf-8') ?? null,
+        after?.toString('utf-8') ?? null
+      ),
+    }
+  })
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * A null side means the file doesn't exist (added or removed)
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null,
+  context: number = 3
+): string[] {
+  const lines = diffLines(splitLines(before), splitLines(after))
+  const output = [
+    `--- ${before === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${path}`}`,
+  ]
+
+  // Line numbers before each diff line, in the old and new file
+  const oldLineNumbers: number[] = []
+  const newLineNumbers: number[] = []
+  let oldLine = 0
+  let newLine = 0
+  for (const line of lines) {
+    oldLineNumbers.push(oldLine)
+    newLineNumbers.push(newLine)
+    if (line.type !== '+') oldLine++
+    if (line.type !== '-') newLine++
+  }
+
+  let index = 0
+  while (index < lines.length) {
+    // Skip to the next change
+    while (index < lines.length && lines[index].type === ' ') {
+      index++
+    }
+    if (index === lines.length) {
+      break
+    }
+
+    // Changes less than two contexts apart share a hunk
+    let lastChange = index
+    for (let i = index; i < lines.length; i++) {
+      if (lines[i].type !== ' ') {
+        lastChange = i
+      } else if (i - lastChange > 2 * context) {
+        break
+      }
+    }
+
+    const start = Math.max(0, index - context)
+    const end = Math.min(lines.length, lastChange + context + 1)
+    const hunk = lines.slice(start, end)
+    const oldCount = hunk.filter((line) => line.type !== '+').length
+    const newCount = hunk.filter((line) => line.type !== '-').length
+
+    // Empty ranges point at the line before them
+    const oldStart = oldLineNumbers[start] + (oldCount > 0 ? 1 : 0)
+    const newStart = newLineNumbers[start] + (newCount > 0 ? 1 : 0)
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    output.push(...hunk.map((line) => `${line.type}${line.text}`))
+
+    index = end
+  }
+
+  return output
+}
+
+/**
+ * Colour unified diff lines for the terminal
+ * Colours are left out when the output isn't a terminal
+ */
+export function formatDiff(lines: string[]): string {
+  return lines
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        return styleText('bold', line)
+      }
+      if (line.startsWith('@@')) {
+        return styleText('cyan', line)
+      }
+      if (line.startsWith('+')) {
+        return styleText('green', line)
+      }
+      if (line.startsWith('-')) {
+        return styleText('red', line)
+      }
+      return line
+    })
+    .join('\n')
+}
+
+/**
+ * Diff two lists of lines using their longest common subsequence
+ */
+function diffLines(from: string[], to: string[]): DiffLine[] {
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+
+  for (const [fromIndex, toIndex] of matchLines(from, to)) {
+    while (i < fromIndex) lines.push({ type: '-', text: from[i++] })
+    while (j < toIndex) lines.push({ type: '+', text: to[j++] })
+    lines.push({ type: ' ', text: from[i] })
+    i++
+    j++
+  }
+
+  while (i < from.length) lines.push({ type: '-', text: from[i++] })
+  while (j < to.length) lines.push({ type: '+', text: to[j++] })
+
+  return lines
+}
+
+/**
+ * Split file content into lines, ignoring the final newline
+ */
+function splitLines(content: string | null): string[] {
+  if (!content) {
+    return []
+  }
+  const lines = content.split('\n')
+  return lines.at(-1) === '' ? lines.slice(0, -1) : lines
+}
@@ -1,7 +1,8 @@
-import { existsSync, readdirSync, statSync } from 'node:fs'
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs'
 import { basename, join } from 'node:path'
 import type { DiscoveredSkill } from '../types.js'
-import { isCustomizableSkill } from './paths.js'
+import { parseSkillConfig } from './config.js'
+import { getSkillConfigPath, isCustomizableSkill } from './paths.js'
 
 /**
  * Discover all skills in a repository directory
@@ -57,3 +58,88 @@ export function discoverSkills(repoDir: string): DiscoveredSkill[] {
   traverseDirectory(repoDir)
   return skills
 }
+
+/**
+ * SKILL.md split into its frontmatter fields and markdown body
+ */
+export interface SkillDocument {
+  frontmatter: Record<string, string>
+  body: string
+}
+
+/**
+ * Read and split a skill's SKILL.md
+ * Returns null if there is no SKILL.md
+ */
+export function readSkillDocument(skillDir: string): SkillDocument | null {
+  const skillMdPath = join(skillDir, 'SKILL.md')
+
+  if (!existsSync(skillMdPath)) {
+    return null
+  }
+
+  const content = readFileSync(skillMdPath, 'utf-8')
+
+  // Parse YAML frontmatter (single-line fields only)
+  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n?/)
+  if (!frontmatterMatch) {
+    return { frontmatter: {}, body: content }
+  }
+
+  const frontmatter: Record<string, string> = {}
+  for (const line of frontmatterMatch[1].split('\n')) {
+    const fieldMatch = line.match(/^([\w-]+):\s*(.+)$/)
+    if (fieldMatch) {
+      frontmatter[fieldMatch[1]] = fieldMatch[2].trim()
+    }
+  }
+
+  return {
+    frontmatter,
+    body: content.slice(frontmatterMatch[0].length).replace(/^\n+/, ''),
+  }
+}
+
+/**
+ * Read a single field from SKILL.md frontmatter
+ * Returns undefined if there is no SKILL.md, frontmatter or field
+ */
+function readFrontmatterField(
+  skillDir: string,
+  field: string
+): string | undefined {
+  return readSkillDocument(skillDir)?.frontmatter[field]
+}
+
+/**
+ * Extract skill name from SKILL.md frontmatter with directory name fallback
+ * Priority: frontmatter name → directory name
+ */
+export function extractSkillName(skillDir: string): string {
+  return readFrontmatterField(skillDir, 'name') ?? basename(skillDir)
+}
+
+/**
+ * Get the name a skill is installed under
+ * Customizable skills use config.meta.name, standard skills use SKILL.md
+ */
+export function getSkillName(skillDir: string): string {
+  if (isCustomizableSkill(skillDir)) {
+    const config = parseSkillConfig(getSkillConfigPath(skillDir))
+    return config.meta.name?.trim() || basename(skillDir)
+  }
+
+  return extractSkillName(skillDir)
+}
+
+/**
+ * Get the version of a skill, if it declares one
+ * Customizable skills use config.meta.version, standard skills use SKILL.md
+ */
+export function getSkillVersion(skillDir: string): string | undefined {
+  if (isCustomizableSkill(skillDir)) {
+    return parseSkillConfig(getSkillConfigPath(skillDir)).meta.version
+  }
+
+  return readFrontmatterField(skillDir, 'version')?.replace(/^["']|["']$/g, '')
+}
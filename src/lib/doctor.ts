@@ -0,0 +1,338 @@
+import { existsSync, readdirSync, renameSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import type { InstalledSkill, LockedSkill } from '../types.js'
+import { readLockfile, removeLockedSkill } from './lockfile.js'
+import {
+  getInstalledSkill,
+  parseMetadataFile,
+  recordInstalledSkill,
+  removeSkillFromMetadata,
+} from './metadata.js'
+import {
+  getAgentRegistry,
+  getAgentsByPriority,
+  getDetectionMarker,
+  getMetadataPath,
+  locateWorkspaceRoot,
+  type AgentType,
+} from './paths.js'
+
+/**
+ * Kinds of problems `taito doctor` looks for
+ */
+export type DoctorProblemType =
+  | 'missing-dir' // metadata entry without a skill directory
+  | 'untracked-dir' // skill directory without a metadata entry
+  | 'invalid-metadata' // .taito-meta.json that fails to parse
+
+/**
+ * A problem found in a skills directory
+ */
+export interface DoctorProblem {
+  type: DoctorProblemType
+  agent: AgentType
+  global: boolean
+  path: string // skill directory or metadata file
+  skillName?: string
+  message: string
+  fixable: boolean
+}
+
+/**
+ * A skills directory taito looked at
+ */
+export interface SkillsDirReport {
+  agent: AgentType
+  global: boolean
+  path: string
+  exists: boolean
+  skills: number // entries in its metadata
+}
+
+/**
+ * Everything `taito doctor` found
+ */
+export interface DoctorReport {
+  workspaceRoot: string
+  rootMarker?: string // marker that identified the workspace root
+  explicitRoot?: boolean // root chosen with --root
+  agents: { agent: AgentType; marker: string }[] // detected agents
+  skillsDirs: SkillsDirReport[]
+  problems: DoctorProblem[]
+}
+
+/**
+ * Inspect workspace detection and every skills directory taito manages
+ * Local directories are checked for detected agents and for any agent
+ * with existing metadata, global directories when they exist
+ */
+export function diagnoseWorkspace(startDir?: string): DoctorReport {
+  const {
+    root: workspaceRoot,
+    marker: rootMarker,
+    explicit: explicitRoot,
+  } = locateWorkspaceRoot(startDir)
+  const registry = getAgentRegistry(workspaceRoot)
+  const lockfile = readLockfile(workspaceRoot)
+
+  const agents = getAgentsByPriority(workspaceRoot).flatMap((agent) => {
+    const marker = getDetectionMarker(agent, workspaceRoot, registry)
+    return marker ? [{ agent, marker }] : []
+  })
+
+  const skillsDirs: SkillsDirReport[] = []
+  const problems: DoctorProblem[] = []
+  const seenPaths = new Set<string>()
+
+  for (const agent of getAgentsByPriority(workspaceRoot)) {
+    const detected = agents.some((a) => a.agent === agent)
+
+    for (const global of [false, true]) {
+      if (global && !registry[agent].globalPath) {
+        continue
+      }
+
+      const metadataPath = getMetadataPath(agent, global, workspaceRoot)
+      const skillsDir = dirname(metadataPath)
+      const exists = existsSync(skillsDir)
+
+      // Agents sharing a directory are reported once
+      if (seenPaths.has(skillsDir)) continue
+      if (!exists && (global || !detected)) continue
+      if (!global && !detected && !existsSync(metadataPath)) continue
+      seenPaths.add(skillsDir)
+
+      const report: SkillsDirReport = {
+        agent,
+        global,
+        path: skillsDir,
+        exists,
+        skills: 0,
+      }
+      skillsDirs.push(report)
+
+      if (!existsSync(metadataPath)) {
+        problems.push(
+          ...findUntrackedDirs(
+            skillsDir,
+            [],
+            agent,
+            global,
+            lockfile.skills,
+            workspaceRoot
+          )
+        )
+        continue
+      }
+
+      let skills: InstalledSkill[]
+      try {
+        skills = parseMetadataFile(metadataPath).skills
+      } catch (error) {
+        problems.push({
+          type: 'invalid-metadata',
+          agent,
+          global,
+          path: metadataPath,
+          message: (error as Error).message,
+          fixable: true,
+        })
+        continue
+      }
+
+      report.skills = skills.length
+
+      // Skills installed with --output live in their own directory
+      for (const skill of skills) {
+        const skillDir = skill.output
+          ? resolve(workspaceRoot, skill.output)
+          : join(skillsDir, skill.name)
+        if (!existsSync(skillDir)) {
+          problems.push({
+            type: 'missing-dir',
+            agent,
+            global,
+            path: skillDir,
+            skillName: skill.name,
+            message: `'${skill.name}' is in metadata but ${skillDir} is missing`,
+            fixable: true,
+          })
+        }
+      }
+
+      problems.push(
+        ...findUntrackedDirs(
+          skillsDir,
+          skills.filter((s) => !s.output).map((s) => s.name),
+          agent,
+          global,
+          lockfile.skills,
+          workspaceRoot
+        )
+      )
+    }
+  }
+
+  return {
+    workspaceRoot,
+    rootMarker,
+    explicitRoot,
+    agents,
+    skillsDirs,
+    problems,
+  }
+}
+
+/**
+ * Find skill directories that metadata doesn't know about
+ * They can be repaired when the lockfile still pins them
+ */
+function findUntrackedDirs(
+  skillsDir: string,
+  tracked: string[],
+  agent: AgentType,
+  global: boolean,
+  locked: LockedSkill[],
+  workspaceRoot: string
+): DoctorProblem[] {
+  if (!existsSync(skillsDir)) {
+    return []
+  }
+
+  return readdirSync(skillsDir)
+    .filter(
+      (entry) =>
+        !entry.startsWith('.') &&
+        !tracked.includes(entry) &&
+        existsSync(join(skillsDir, entry, 'SKILL.md'))
+    )
+    .map((entry) => {
+      const fixable =
+        !global &&
+        !!findLockedSkill(locked, entry, agent, skillsDir, workspaceRoot)
+      return {
+        type: 'untracked-dir' as const,
+        agent,
+        global,
+        path: join(skillsDir, entry),
+        skillName: entry,
+        message: fixable
+          ? `${join(skillsDir, entry)} has no metadata entry (pinned in taito.lock)`
+          : `${join(skillsDir, entry)} is not managed by taito`,
+        fixable,
+      }
+    })
+}
+
+/**
+ * Find the lockfile entry for a skill in an agent's local skills directory
+ * Agents sharing the directory match each other's entries
+ */
+function findLockedSkill(
+  locked: LockedSkill[],
+  name: string,
+  agent: AgentType,
+  skillsDir: string,
+  workspaceRoot: string
+): LockedSkill | undefined {
+  return locked.find(
+    (skill) =>
+      skill.name === name &&
+      skill.agent &&
+      !skill.output &&
+      (skill.agent === agent ||
+        dirname(getMetadataPath(skill.agent, false, workspaceRoot)) ===
+          skillsDir)
+  )
+}
+
+/**
+ * Repair a fixable problem
+ * - missing-dir: drop the stale metadata and lockfile entries
+ * - untracked-dir: restore the metadata entry from taito.lock
+ * - invalid-metadata: back up the file and rebuild it from taito.lock
+ */
+export function fixProblem(
+  problem: DoctorProblem,
+  workspaceRoot: string
+): void {
+  const { agent, global, skillName } = problem
+
+  switch (problem.type) {
+    case 'missing-dir': {
+      const { output } =
+        getInstalledSkill(skillName!, agent, global, workspaceRoot) ?? {}
+      removeSkillFromMetadata(skillName!, agent, global, workspaceRoot)
+      if (!global) {
+        removeLockedSkill(skillName!, agent, workspaceRoot, output)
+      }
+      return
+    }
+
+    case 'untracked-dir': {
+      const locked = findLockedSkill(
+        readLockfile(workspaceRoot).skills,
+        skillName!,
+        agent,
+        dirname(problem.path),
+        workspaceRoot
+      )
+      if (locked) {
+        recordInstalledSkill(
+          toInstalledSkill(locked),
+          agent,
+          false,
+          workspaceRoot
+        )
+      }
+      return
+    }
+
+    case 'invalid-metadata': {
+      // Without the file, metadata reads as empty and is rewritten below
+      renameSync(problem.path, `${problem.path}.bak`)
+
+      if (global) {
+        return
+      }
+
+      // Skills installed with --output are kept in the default metadata
+      const skillsDir = dirname(problem.path)
+      const isDefault =
+        dirname(getMetadataPath(undefined, false, workspaceRoot)) === skillsDir
+      for (const locked of readLockfile(workspaceRoot).skills) {
+        if (
+          locked.output
+            ? isDefault && existsSync(resolve(workspaceRoot, locked.output))
+            : findLockedSkill(
+                [locked],
+                locked.name,
+                agent,
+                skillsDir,
+                workspaceRoot
+              ) && existsSync(join(skillsDir, locked.name))
+        ) {
+          recordInstalledSkill(
+            toInstalledSkill(locked),
+            agent,
+            false,
+            workspaceRoot
+          )
+        }
+      }
+      return
+    }
+  }
+}
+
+/**
+ * Rebuild a metadata entry from its lockfile entry
+ * File fingerprints are unknown, so local edits can't be detected until
+ * the skill is updated
+ */
+function toInstalledSkill(
+  locked: LockedSkill
+): Omit<InstalledSkill, 'installedAt'> {
+  const { agent, integrity, ...skill } = locked
+  return skill
+}
@@ -0,0 +1,127 @@
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+import type { EditResolution } from '../types.js'
+import { hashFile } from './hash.js'
+import { mergeText } from './merge.js'
+
+/**
+ * An installed file that differs from what taito last wrote
+ */
+export interface LocalEdit {
+  path: string // relative to the skill directory
+  local: Buffer // current (edited) content
+  base?: Buffer // content taito last wrote, if a snapshot exists
+}
+
+/**
+ * Find installed files that were edited since taito last wrote them
+ * Files without a recorded hash, or that no longer exist, are not edits
+ */
+export function findLocalEdits(
+  outputDir: string,
+  recorded?: Record<string, string>
+): string[] {
+  if (!recorded) {
+    return []
+  }
+
+  return Object.entries(recorded)
+    .filter(([file, hash]) => {
+      const filePath = join(outputDir, file)
+      return existsSync(filePath) && hashFile(filePath) !== hash
+    })
+    .map(([file]) => file)
+}
+
+/**
+ * Read local edits and their merge base before the skill is overwritten
+ */
+export function captureLocalEdits(
+  outputDir: string,
+  baseDir: string,
+  files: string[]
+): LocalEdit[] {
+  return files.map((file) => {
+    const basePath = join(baseDir, file)
+    return {
+      path: file,
+      local: readFileSync(join(outputDir, file)),
+      base: existsSync(basePath) ? readFileSync(basePath) : undefined,
+    }
+  })
+}
+
+/**
+ * Re-apply local edits after the new version was written to outputDir
+ * Returns the paths that were merged with conflicts
+ */
+export function restoreLocalEdits(
+  outputDir: string,
+  edits: LocalEdit[],
+  resolution: EditResolution
+): string[] {
+  const conflicted: string[] = []
+
+  if (resolution === 'upstream') {
+    return conflicted
+  }
+
+  for (const edit of edits) {
+    const filePath = join(outputDir, edit.path)
+    mkdirSync(dirname(filePath), { recursive: true })
+
+    // Removed upstream or binary content can't be merged, so keep local
+    if (
+      resolution === 'keep' ||
+      !existsSync(filePath) ||
+      isBinary(edit.local)
+    ) {
+      writeFileSync(filePath, edit.local)
+      continue
+    }
+
+    const merged = mergeText(
+      edit.base?.toString('utf-8') ?? '',
+      edit.local.toString('utf-8'),
+      readFileSync(filePath, 'utf-8')
+    )
+
+    writeFileSync(filePath, merged.content)
+    if (merged.conflicts > 0) {
+      conflicted.push(edit.path)
+    }
+  }
+
+  return conflicted
+}
+
+/**
+ * Save the rendered files as the merge base for future updates
+ */
+export function saveBaseSnapshot(
+  renderedDir: string,
+  files: string[],
+  baseDir: string
+): void {
+  rmSync(baseDir, { recursive: true, force: true })
+
+  for (const file of files) {
+    const target = join(baseDir, file)
+    mkdirSync(dirname(target), { recursive: true })
+    copyFileSync(join(renderedDir, file), target)
+  }
+}
+
+/**
+ * Check whether content looks binary (contains a NUL byte)
+ */
+export function isBinary(content: Buffer): boolean {
+  return content.includes(0)
+}
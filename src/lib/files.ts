@@ -0,0 +1,206 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import { parseSkillConfig } from './config.js'
+import { getSkillConfigPath, isCustomizableSkill } from './paths.js'
+
+/**
+ * Patterns every skill leaves out, before the rules in its .taitoignore
+ * Hidden files, dependencies and package manifests
+ */
+const DEFAULT_IGNORE = [
+  '.*',
+  'node_modules/',
+  'package.json',
+  'package-lock.json',
+]
+
+/**
+ * What a standard skill without a .taitoignore installs
+ */
+const STANDARD_INCLUDE = [
+  'SKILL.md',
+  'scripts',
+  'references',
+  'assets',
+  'rules',
+]
+
+/**
+ * A gitignore-style pattern
+ */
+export interface IgnoreRule {
+  pattern: string
+  glob: Bun.Glob
+  negated: boolean // !pattern, re-includes what an earlier rule ignored
+  dirOnly: boolean // pattern/, only matches directories
+  anchored: boolean // contains a slash, matched against the whole path
+}
+
+/**
+ * Rules deciding which files of a skill are installed
+ */
+export interface FileSelection {
+  ignore: IgnoreRule[] // defaults followed by .taitoignore
+  include?: Bun.Glob[] // from [files] include in skill.config.toml
+}
+
+/**
+ * Get the file selection rules of a skill: the default ignores, the
+ * skill's .taitoignore and, for customizable skills, the include list
+ * in skill.config.toml
+ * Standard skills without a .taitoignore only install SKILL.md, scripts,
+ * references, assets and rules
+ */
+export function getFileSelection(skillDir: string): FileSelection {
+  const ignorePath = join(skillDir, '.taitoignore')
+  const hasIgnoreFile = existsSync(ignorePath)
+  const patterns = hasIgnoreFile
+    ? parseIgnoreFile(readFileSync(ignorePath, 'utf-8'))
+    : []
+
+  const include = isCustomizableSkill(skillDir)
+    ? parseSkillConfig(getSkillConfigPath(skillDir)).include
+    : hasIgnoreFile
+      ? undefined
+      : STANDARD_INCLUDE
+
+  return {
+    ignore: [...DEFAULT_IGNORE, ...patterns].map(parseIgnorePattern),
+    include: include?.map((pattern) => new Bun.Glob(normalizePattern(pattern))),
+  }
+}
+
+/**
+ * Read the patterns of a .taitoignore file, skipping blank lines and
+ * comments
+ */
+export function parseIgnoreFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+}
+
+/**
+ * List the files of a skill directory that are installed, relative to it
+ * The .taito/ folder is never part of the output
+ */
+export function selectSkillFiles(
+  skillDir: string,
+  selection: FileSelection = getFileSelection(skillDir)
+): string[] {
+  const files: string[] = []
+
+  const walk = (dir: string, prefix: string) => {
+    for (const entry of readdirSync(dir).sort()) {
+      const path = prefix ? `${prefix}/${entry}` : entry
+      if (path === '.taito') {
+        continue
+      }
+
+      const fullPath = join(dir, entry)
+      const isDir = statSync(fullPath).isDirectory()
+
+      if (isIgnored(path, isDir, selection.ignore)) {
+        continue
+      }
+
+      if (isDir) {
+        walk(fullPath, path)
+      } else if (isIncluded(path, selection.include)) {
+        files.push(path)
+      }
+    }
+  }
+
+  walk(skillDir, '')
+  return files
+}
+
+/**
+ * Check whether a file path (e.g., the output of a template) is selected
+ * A file inside an ignored directory stays ignored, as with gitignore
+ */
+export function isFileSelected(
+  path: string,
+  selection: FileSelection
+): boolean {
+  const segments = path.split('/')
+
+  for (let i = 1; i < segments.length; i++) {
+    if (isIgnored(segments.slice(0, i).join('/'), true, selection.ignore)) {
+      return false
+    }
+  }
+
+  return (
+    !isIgnored(path, false, selection.ignore) &&
+    isIncluded(path, selection.include)
+  )
+}
+
+/**
+ * Parse a gitignore-style pattern
+ * A pattern without a slash matches a name at any depth; one with a slash
+ * is relative to the skill directory
+ */
+function parseIgnorePattern(pattern: string): IgnoreRule {
+  const negated = pattern.startsWith('!')
+  let glob = negated ? pattern.slice(1) : pattern
+
+  const dirOnly = glob.endsWith('/')
+  glob = glob.replace(/\/+$/, '')
+
+  const anchored = glob.includes('/')
+
+  return {
+    pattern,
+    glob: new Bun.Glob(normalizePattern(glob)),
+    negated,
+    dirOnly,
+    anchored,
+  }
+}
+
+/**
+ * Check a path against ignore rules; the last matching rule wins
+ */
+function isIgnored(path: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) {
+      continue
+    }
+
+    if (rule.glob.match(rule.anchored ? path : basename(path))) {
+      ignored = !rule.negated
+    }
+  }
+
+  return ignored
+}
+
+/**
+ * Check a file against the include list
+ * A pattern matching a directory includes everything in it, and SKILL.md
+ * is always included
+ */
+function isIncluded(path: string, include: Bun.Glob[] | undefined): boolean {
+  if (!include || path === 'SKILL.md') {
+    return true
+  }
+
+  const segments = path.split('/')
+  return segments.some((_, i) => {
+    const prefix = segments.slice(0, i + 1).join('/')
+    return include.some((glob) => glob.match(prefix))
+  })
+}
+
+/**
+ * Strip a leading / or ./ from a pattern
+ */
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.?\//, '')
+}
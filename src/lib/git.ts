@@ -0,0 +1,261 @@
+import { execFile } from 'node:child_process'
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { promisify } from 'node:util'
+import type { SkillSource, SourceProvider } from '../types.js'
+import { isCommitSha } from './remote.js'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Check whether a source string is a git remote URL
+ * Supports git+https://, git+ssh://, ssh://, git@host:path and file:// URLs
+ */
+export function isGitSource(source: string): boolean {
+  return (
+    source.startsWith('git+') ||
+    source.startsWith('ssh://') ||
+    source.startsWith('file://') ||
+    /^[\w.-]+@[\w.-]+:/.test(source)
+  )
+}
+
+/**
+ * Parse a git source string
+ * Format: url[//path/to/skill][#ref]
+ */
+export function parseGitSource(source: string, ref?: string): SkillSource {
+  let rest = source
+  let hashRef: string | undefined
+
+  const hashIndex = rest.lastIndexOf('#')
+  if (hashIndex !== -1) {
+    hashRef = rest.slice(hashIndex + 1) || undefined
+    rest = rest.slice(0, hashIndex)
+  }
+
+  // Skip past the scheme so its "//" isn't taken as the subdirectory separator
+  const schemeEnd = rest.indexOf('://')
+  const searchFrom = schemeEnd === -1 ? 0 : schemeEnd + 3
+  const subdirIndex = rest.indexOf('//', searchFrom)
+
+  let url = rest
+  let skillPath: string | undefined
+  if (subdirIndex !== -1) {
+    url = rest.slice(0, subdirIndex)
+    skillPath = rest.slice(subdirIndex + 2).replace(/\/+$/, '') || undefined
+  }
+
+  url = url.replace(/^git\+/, '')
+
+  if (!url || url.endsWith(':') || url.endsWith('://')) {
+    throw new Error(
+      `Invalid git source: "${source}". Expected format: git+https://host/org/repo.git[//path/to/skill][#ref]`
+    )
+  }
+
+  // git would read a leading dash as an option (e.g., --upload-pack)
+  if (url.startsWith('-')) {
+    throw new Error(`Invalid git source: "${source}". URLs can't start with -`)
+  }
+
+  return {
+    type: 'git',
+    url,
+    ref: ref ?? hashRef,
+    skillPath,
+  }
+}
+
+/**
+ * Get a filesystem-safe identifier for a git remote (e.g., "gitlab.com/org/repo")
+ * Used to key cached downloads
+ */
+export function getGitRepositoryId(url: string): string {
+  let host: string
+  let path: string
+
+  const scpMatch = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/\/)(.*)$/)
+  if (scpMatch) {
+    // SCP-like syntax: git@host:org/repo.git
+    host = scpMatch[1]
+    path = scpMatch[2]
+  } else {
+    const parsed = new URL(url)
+    host = parsed.protocol === 'file:' ? 'file' : parsed.hostname
+    path = decodeURIComponent(parsed.pathname)
+  }
+
+  const segments = path
+    .replace(/\.git$/, '')
+    .split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+
+  return [host, ...segments].join('/')
+}
+
+/**
+ * Run git with prompts disabled so missing credentials fail instead of hanging
+ */
+async function runGit(args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      maxBuffer: 16 * 1024 * 1024,
+    })
+    return stdout
+  } catch (error) {
+    const err = error as Error & { code?: string; stderr?: string }
+    if (err.code === 'ENOENT') {
+      throw new Error('git is required for git sources but was not found')
+    }
+    throw new Error(err.stderr?.trim() || err.message)
+  }
+}
+
+/**
+ * Resolve a git ref (branch, tag, or commit) to a full commit SHA
+ * Resolves the remote's default branch if no ref is given
+ */
+export async function resolveGitRef(source: SkillSource): Promise<string> {
+  if (source.type !== 'git') {
+    throw new Error('Source is not a git repository')
+  }
+
+  const { url, ref } = source
+
+  // Full commit SHAs are already immutable
+  if (ref && isCommitSha(ref)) {
+    return ref.toLowerCase()
+  }
+
+  const pattern = ref ?? 'HEAD'
+  const output = await runGit([
+    'ls-remote',
+    '--',
+    url!,
+    pattern,
+    `${pattern}^{}`,
+  ])
+
+  const refs = new Map<string, string>()
+  for (const line of output.split('\n')) {
+    const [sha, name] = line.trim().split(/\s+/)
+    if (sha && name) {
+      refs.set(name, sha)
+    }
+  }
+
+  // Prefer the peeled commit of annotated tags, then tags, then branches
+  const candidates =
+    pattern === 'HEAD'
+      ? ['HEAD']
+      : [
+          `refs/tags/${pattern}^{}`,
+          `refs/tags/${pattern}`,
+          `refs/heads/${pattern}`,
+          pattern,
+        ]
+
+  for (const candidate of candidates) {
+    const sha = refs.get(candidate)
+    if (sha) {
+      return sha
+    }
+  }
+
+  throw new Error(`Failed to resolve ${url}#${pattern}: ref not found`)
+}
+
+/**
+ * List the tags of a git remote
+ */
+export async function listGitTags(source: SkillSource): Promise<string[]> {
+  if (source.type !== 'git') {
+    throw new Error('Source is not a git repository')
+  }
+
+  const output = await runGit([
+    'ls-remote',
+    '--tags',
+    '--refs',
+    '--',
+    source.url!,
+  ])
+
+  return output
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/)[1])
+    .filter((name): name is string => !!name)
+    .map((name) => name.replace(/^refs\/tags\//, ''))
+}
+
+/**
+ * Shallowly clone a git repository at a commit into a temp directory
+ * Returns the path to the checkout
+ */
+export async function cloneGitRepo(
+  source: SkillSource,
+  commit: string
+): Promise<string> {
+  if (source.type !== 'git') {
+    throw new Error('Source is not a git repository')
+  }
+
+  const tempDir = mkdtempSync(join(tmpdir(), 'taito-'))
+  const repoDir = join(tempDir, 'repo')
+
+  try {
+    mkdirSync(repoDir)
+    await runGit(['init', '--quiet'], repoDir)
+    await runGit(['remote', 'add', 'origin', '--', source.url!], repoDir)
+
+    // Fetching by name works on servers that refuse unadvertised SHAs
+    const fetchRef = !source.ref
+      ? 'HEAD'
+      : isCommitSha(source.ref)
+        ? commit
+        : source.ref
+    await runGit(
+      ['fetch', '--quiet', '--depth', '1', 'origin', fetchRef],
+      repoDir
+    )
+
+    const fetchedCommit = (
+      await runGit(['rev-parse', 'FETCH_HEAD^{commit}'], repoDir)
+    ).trim()
+    if (fetchedCommit !== commit) {
+      // The ref moved since it was resolved - fetch the exact commit instead
+      await runGit(
+        ['fetch', '--quiet', '--depth', '1', 'origin', commit],
+        repoDir
+      )
+    }
+
+    await runGit(['checkout', '--quiet', commit], repoDir)
+    rmSync(join(repoDir, '.git'), { recursive: true, force: true })
+
+    return repoDir
+  } catch (error) {
+    // Clean up on error
+    rmSync(tempDir, { recursive: true, force: true })
+    throw error
+  }
+}
+
+/**
+ * Any git remote, fetched with the system git
+ * Sources: git+https://, git+ssh://, ssh://, git@host:path or file:// URLs
+ */
+export const gitProvider: SourceProvider = {
+  type: 'git',
+  name: 'Git',
+  matches: isGitSource,
+  parse: parseGitSource,
+  getRepositoryId: (source) => getGitRepositoryId(source.url!),
+  resolveRef: resolveGitRef,
+  listTags: listGitTags,
+  download: cloneGitRepo,
+}
@@ -1,121 +1,157 @@
-import { createWriteStream, mkdtempSync, rmSync } from 'node:fs'
-import { tmpdir } from 'node:os'
-import { join } from 'node:path'
-import { Readable } from 'node:stream'
-import { pipeline } from 'node:stream/promises'
-import { extract } from 'tar'
-import type { SkillSource } from '../types.js'
+import type { SourceProvider } from '../types.js'
+import {
+  downloadArchive,
+  fetchJson,
+  isCommitSha,
+  parseRepositoryPath,
+  trimBaseUrl,
+} from './remote.js'
 
 /**
- * Parse a skill source string (owner/repo, owner/repo/path/to/skill, or local path)
+ * Settings that differ between github.com and GitHub Enterprise
  */
-export function parseSkillSource(source: string, ref?: string): SkillSource {
-  // Check if it's a local path
-  if (
-    source.startsWith('/') ||
-    source.startsWith('./') ||
-    source.startsWith('..')
-  ) {
-    return {
-      type: 'local',
-      path: source,
-    }
-  }
-
-  // Parse as GitHub owner/repo with optional path and ref
-  // Format: owner/repo[/path/to/skill][@ref]
-  const match = source.match(/^([^/]+)\/([^/@]+)(\/[^@]+)?(?:@(.+))?$/)
-  if (!match) {
-    throw new Error(
-      `Invalid skill source: "${source}". Expected format: owner/repo, owner/repo/path/to/skill, or owner/repo@ref`
-    )
-  }
-
-  // Extract skill path (remove leading slash if present)
-  const skillPath = match[3] ? match[3].slice(1) : undefined
-
-  return {
-    type: 'github',
-    owner: match[1],
-    repo: match[2],
-    ref: ref ?? match[4] ?? 'main',
-    skillPath,
-  }
+interface GitHubHost {
+  type: 'github' | 'ghe'
+  name: string
+  prefix: string // source prefix (e.g., "ghe:")
+  tokenEnv: string
+  apiUrl: () => string
+  codeloadUrl: () => string | undefined // falls back to the API tarball endpoint
 }
 
 /**
- * Fetch a skill from GitHub and extract to a temp directory
- * Returns the path to the extracted skill directory
+ * Create a provider for a GitHub host
  */
-export async function fetchFromGitHub(source: SkillSource): Promise<string> {
-  if (source.type !== 'github') {
-    throw new Error('Source is not a GitHub repository')
+function createGitHubProvider(host: GitHubHost): SourceProvider {
+  const getAuthHeaders = (): Record<string, string> => {
+    const token = process.env[host.tokenEnv]
+    return token ? { Authorization: `Bearer ${token}` } : {}
   }
 
-  const { owner, repo, ref = 'main' } = source
-  const tarballUrl = `https://codeload.github.com/${owner}/${repo}/tar.gz/${ref}`
-
-  // Create temp directory
-  const tempDir = mkdtempSync(join(tmpdir(), 'taito-'))
-
-  try {
-    // Fetch the tarball
-    const response = await fetch(tarballUrl, {
-      headers: {
-        // Support private repos with GITHUB_TOKEN
-        ...(process.env.GITHUB_TOKEN && {
-          Authorization: `Bearer ${process.env.GITHUB_TOKEN}`,
-        }),
-      },
-    })
+  return {
+    type: host.type,
+    name: host.name,
+    tokenEnv: host.tokenEnv,
+
+    matches: (source) => source.startsWith(host.prefix),
+
+    parse: (source, ref) => {
+      const path = source.startsWith(host.prefix)
+        ? source.slice(host.prefix.length)
+        : source
+      return parseRepositoryPath(host.type, path, ref)
+    },
+
+    getRepositoryId: (source) =>
+      `${new URL(host.apiUrl()).hostname.replace(/^api\./, '')}/${source.owner}/${source.repo}`,
+
+    resolveRef: async (source) => {
+      const { owner, repo } = source
+
+      // Full commit SHAs are already immutable
+      if (source.ref && isCommitSha(source.ref)) {
+        return source.ref.toLowerCase()
+      }
+
+      const repository = `${host.apiUrl()}/repos/${owner}/${repo}`
+
+      // Without a ref, use the repository's default branch
+      const ref =
+        source.ref ??
+        (
+          await fetchJson<{ default_branch: string }>(
+            repository,
+            getAuthHeaders(),
+            `${owner}/${repo}`
+          )
+        ).default_branch
+
+      const response = await fetch(
+        `${repository}/commits/${encodeURIComponent(ref)}`,
+        {
+          headers: {
+            Accept: 'application/vnd.github.sha',
+            ...getAuthHeaders(),
+          },
+        }
+      )
 
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch ${owner}/${repo}@${ref}: ${response.status} ${response.statusText}`
+      if (!response.ok) {
+        throw new Error(
+          `Failed to resolve ${owner}/${repo}@${ref}: ${response.status} ${response.statusText}`
+        )
+      }
+
+      return (await response.text()).trim()
+    },
+
+    listTags: async (source) => {
+      const { owner, repo } = source
+      const refs = await fetchJson<{ ref: string }[]>(
+        `${host.apiUrl()}/repos/${owner}/${repo}/git/matching-refs/tags`,
+        getAuthHeaders(),
+        `tags of ${owner}/${repo}`
       )
-    }
 
-    if (!response.body) {
-      throw new Error('No response body received from GitHub')
-    }
+      return refs.map((r) => r.ref.replace(/^refs\/tags\//, ''))
+    },
 
-    // Write tarball to temp file
-    const tarballPath = join(tempDir, 'skill.tar.gz')
-    const writeStream = createWriteStream(tarballPath)
-    await pipeline(Readable.fromWeb(response.body as never), writeStream)
-
-    // Extract tarball
-    const extractDir = join(tempDir, 'extracted')
-    await extract({
-      file: tarballPath,
-      cwd: tempDir,
-    })
-
-    // GitHub tarballs extract to a directory named {repo}-{ref}
-    // We need to find it
-    const { readdirSync } = await import('node:fs')
-    const entries = readdirSync(tempDir)
-    const extractedDir = entries.find(
-      (e) => e !== 'skill.tar.gz' && !e.startsWith('.')
-    )
-
-    if (!extractedDir) {
-      throw new Error('Failed to find extracted skill directory')
-    }
+    download: (source, commit) => {
+      const { owner, repo } = source
+      const codeloadUrl = host.codeloadUrl()
+      const tarballUrl = codeloadUrl
+        ? `${codeloadUrl}/${owner}/${repo}/tar.gz/${commit}`
+        : `${host.apiUrl()}/repos/${owner}/${repo}/tarball/${commit}`
 
-    return join(tempDir, extractedDir)
-  } catch (error) {
-    // Clean up on error
-    rmSync(tempDir, { recursive: true, force: true })
-    throw error
+      return downloadArchive(
+        tarballUrl,
+        getAuthHeaders(),
+        `${owner}/${repo}@${commit}`
+      )
+    },
   }
 }
 
 /**
- * Clean up a temp directory created by fetchFromGitHub
+ * github.com
+ * Sources: owner/repo[/path/to/skill][@ref], optionally prefixed with "github:"
+ * Supports private repos with GITHUB_TOKEN
  */
-export function cleanupTempDir(skillDir: string): void {
-  // The skill dir is inside a temp dir, so we need to go up one level
-  const tempDir = join(skillDir, '..')
-  rmSync(tempDir, { recursive: true, force: true })
-}
+export const githubProvider = createGitHubProvider({
+  type: 'github',
+  name: 'GitHub',
+  prefix: 'github:',
+  tokenEnv: 'GITHUB_TOKEN',
+  apiUrl: () =>
+    trimBaseUrl(process.env.TAITO_GITHUB_API_URL ?? 'https://api.github.com'),
+  codeloadUrl: () =>
+    trimBaseUrl(
+      process.env.TAITO_GITHUB_CODELOAD_URL ?? 'https://codeload.github.com'
+    ),
+})
+
+/**
+ * GitHub Enterprise Server, configured with TAITO_GHE_URL
+ * Sources: ghe:owner/repo[/path/to/skill][@ref]
+ */
+export const gheProvider = createGitHubProvider({
+  type: 'ghe',
+  name: 'GitHub Enterprise',
+  prefix: 'ghe:',
+  tokenEnv: 'GITHUB_ENTERPRISE_TOKEN',
+  apiUrl: () => {
+    if (process.env.TAITO_GHE_API_URL) {
+      return trimBaseUrl(process.env.TAITO_GHE_API_URL)
+    }
+    if (!process.env.TAITO_GHE_URL) {
+      throw new Error(
+        'Set TAITO_GHE_URL to your GitHub Enterprise URL to use ghe: sources'
+      )
+    }
+    return `${trimBaseUrl(process.env.TAITO_GHE_URL)}/api/v3`
+  },
+  codeloadUrl: () =>
+    process.env.TAITO_GHE_CODELOAD_URL
+      ? trimBaseUrl(process.env.TAITO_GHE_CODELOAD_URL)
+      : undefined,
+})
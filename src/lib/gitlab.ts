@@ -0,0 +1,113 @@
+import type { SourceProvider } from '../types.js'
+import {
+  downloadArchive,
+  fetchJson,
+  isCommitSha,
+  parseRepositoryPath,
+  trimBaseUrl,
+} from './remote.js'
+
+/**
+ * Get the GitLab instance URL (gitlab.com unless TAITO_GITLAB_URL is set)
+ */
+function getGitLabUrl(): string {
+  return trimBaseUrl(process.env.TAITO_GITLAB_URL ?? 'https://gitlab.com')
+}
+
+/**
+ * Get the GitLab REST API base URL
+ */
+function getGitLabApiUrl(): string {
+  return trimBaseUrl(
+    process.env.TAITO_GITLAB_API_URL ?? `${getGitLabUrl()}/api/v4`
+  )
+}
+
+/**
+ * Auth headers for GitLab requests
+ * Supports private projects with GITLAB_TOKEN
+ */
+function getAuthHeaders(): Record<string, string> {
+  return process.env.GITLAB_TOKEN
+    ? { 'PRIVATE-TOKEN': process.env.GITLAB_TOKEN }
+    : {}
+}
+
+/**
+ * GitLab.com or a self-managed instance configured with TAITO_GITLAB_URL
+ * Sources: gitlab:group/project[/path/to/skill][@ref], with subgroups as
+ * gitlab:group/subgroup/project[//path/to/skill][@ref]
+ */
+export const gitlabProvider: SourceProvider = {
+  type: 'gitlab',
+  name: 'GitLab',
+  tokenEnv: 'GITLAB_TOKEN',
+
+  matches: (source) => source.startsWith('gitlab:'),
+
+  parse: (source, ref) =>
+    parseRepositoryPath('gitlab', source.slice('gitlab:'.length), ref),
+
+  getRepositoryId: (source) =>
+    `${new URL(getGitLabUrl()).hostname}/${source.owner}/${source.repo}`,
+
+  resolveRef: async (source) => {
+    const { owner, repo, ref } = source
+
+    // Full commit SHAs are already immutable
+    if (ref && isCommitSha(ref)) {
+      return ref.toLowerCase()
+    }
+
+    const project = `${getGitLabApiUrl()}/projects/${encodeURIComponent(`${owner}/${repo}`)}`
+
+    // Without a ref, use the project's default branch
+    const branch =
+      ref ??
+      (
+        await fetchJson<{ default_branch: string }>(
+          project,
+          getAuthHeaders(),
+          `${owner}/${repo}`
+        )
+      ).default_branch
+
+    const commit = await fetchJson<{ id: string }>(
+      `${project}/repository/commits/${encodeURIComponent(branch)}`,
+      getAuthHeaders(),
+      `${owner}/${repo}@${branch}`
+    )
+
+    return commit.id
+  },
+
+  listTags: async (source) => {
+    const { owner, repo } = source
+    const project = encodeURIComponent(`${owner}/${repo}`)
+    const tags: string[] = []
+
+    for (let page = 1; ; page++) {
+      const batch = await fetchJson<{ name: string }[]>(
+        `${getGitLabApiUrl()}/projects/${project}/repository/tags?per_page=100&page=${page}`,
+        getAuthHeaders(),
+        `tags of ${owner}/${repo}`
+      )
+      tags.push(...batch.map((tag) => tag.name))
+
+      if (batch.length < 100) {
+        return tags
+      }
+    }
+  },
+
+  download: (source, commit) => {
+    const { owner, repo } = source
+    const project = encodeURIComponent(`${owner}/${repo}`)
+
+    return downloadArchive(
+      `${getGitLabApiUrl()}/projects/${project}/repository/archive.tar.gz?sha=${commit}`,
+      getAuthHeaders(),
+      `${owner}/${repo}@${commit}`
+    )
+  },
+}
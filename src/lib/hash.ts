@@ -0,0 +1,46 @@
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { join, sep } from 'node:path'
+
+/**
+ * Compute a single content hash for a set of files in a directory
+ * File paths are sorted and normalized so the hash is stable across platforms
+ */
+export function hashFiles(dir: string, files: string[]): string {
+  const sorted = files.map((file) => file.split(sep).join('/')).sort()
+
+  const hash = createHash('sha256')
+
+  for (const file of sorted) {
+    hash.update(file)
+    hash.update('\0')
+    hash.update(readFileSync(join(dir, file)))
+    hash.update('\0')
+  }
+
+  return `sha256-${hash.digest('base64')}`
+}
+
+/**
+ * Compute the content hash of a single file
+ */
+export function hashFile(path: string): string {
+  return `sha256-${createHash('sha256').update(readFileSync(path)).digest('base64')}`
+}
+
+/**
+ * Hash each file individually, keyed by its path relative to dir
+ * Used to detect local edits to installed files
+ */
+export function fingerprintFiles(
+  dir: string,
+  files: string[]
+): Record<string, string> {
+  const fingerprints: Record<string, string> = {}
+
+  for (const file of [...files].sort()) {
+    fingerprints[file.split(sep).join('/')] = hashFile(join(dir, file))
+  }
+
+  return fingerprints
+}
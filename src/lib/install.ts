@@ -0,0 +1,383 @@
+import { cpSync, existsSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import * as p from '@clack/prompts'
+import type {
+  EditResolution,
+  FetchedSource,
+  FileChange,
+  FileDiff,
+  InstalledSkill,
+  SkillPreview,
+  VariableValues,
+} from '../types.js'
+import { removeAgentOutput, writeAgentOutput } from './adapters.js'
+import { replaceDir } from './atomic.js'
+import { omitSecrets, parseSkillConfig } from './config.js'
+import {
+  applyChanges,
+  compareOutput,
+  diffChanges,
+  formatDiff,
+  summarizeChanges,
+} from './diff.js'
+import { getSkillVersion } from './discovery.js'
+import {
+  captureLocalEdits,
+  findLocalEdits,
+  restoreLocalEdits,
+  saveBaseSnapshot,
+  type LocalEdit,
+} from './edits.js'
+import { fingerprintFiles, hashFiles } from './hash.js'
+import { linkSkillDir } from './links.js'
+import { recordLockedSkill, removeLockedSkill } from './lockfile.js'
+import {
+  getAllInstalledSkills,
+  getInstalledSkill,
+  recordInstalledSkill,
+  removeSkillFromMetadata,
+  type SkillInstallation,
+} from './metadata.js'
+import {
+  getAgentConfig,
+  getBaseSnapshotDir,
+  getOutputBaseSnapshotDir,
+  getSkillConfigPath,
+  getSkillOutputDir,
+  getStoreBaseSnapshotDir,
+  isCustomizableSkill,
+  type AgentType,
+} from './paths.js'
+import { promptForEditResolution } from './prompts.js'
+import { copyStandardSkill, renderSkill } from './render.js'
+import { getSkillPath } from './source.js'
+
+const changeSymbols: Record<FileChange['status'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+  unchanged: ' ',
+}
+
+/**
+ * Options for installing a skill from a fetched source
+ */
+export interface InstallFromSourceOptions {
+  installed: InstalledSkill // current metadata entry, or the desired one for new installs
+  fetched: FetchedSource
+  skillDir: string // skill directory within the fetched source
+  values: VariableValues
+  agent: AgentType
+  workspaceRoot: string
+  dryRun?: boolean
+  json?: boolean // return the dry run instead of printing it
+}
+
+/**
+ * Render a skill from a fetched source into the agent's skills directory
+ * If the skill is already installed, only files whose output changed are
+ * written and local edits are protected. A dry run returns what would
+ * change, with the diff of every file
+ */
+export async function installFromSource({
+  installed,
+  fetched,
+  skillDir,
+  values,
+  agent,
+  workspaceRoot,
+  dryRun,
+  json,
+}: InstallFromSourceOptions): Promise<SkillPreview | undefined> {
+  const customizable = isCustomizableSkill(skillDir)
+  const savedValues = customizable
+    ? omitSecrets(parseSkillConfig(getSkillConfigPath(skillDir)), values)
+    : undefined
+
+  // Skills shared through the store are rendered once for all linked agents
+  const linked = installed.store
+    ? getLinkedInstallations(installed, workspaceRoot)
+    : []
+  const agents = linked.length > 0 ? linked.map((l) => l.agent) : [agent]
+
+  const outputDir = installed.store
+    ? resolve(workspaceRoot, installed.store)
+    : installed.output
+      ? resolve(workspaceRoot, installed.output)
+      : getSkillOutputDir(installed.name, agent, false, workspaceRoot)
+
+  const isNewInstall = !existsSync(outputDir)
+
+  // Render into a temp directory so we can compare with the installed files
+  const stagingDir = mkdtempSync(join(tmpdir(), 'taito-install-'))
+
+  try {
+    const files = customizable
+      ? await renderSkill(skillDir, stagingDir, values)
+      : copyStandardSkill(skillDir, stagingDir)
+
+    // Only files taito wrote can be removed, files the user added stay
+    const changes = compareOutput(
+      outputDir,
+      stagingDir,
+      files,
+      Object.keys(installed.files ?? {})
+    )
+
+    // Local edits only matter for files the update would touch
+    const edited = findLocalEdits(outputDir, installed.files).filter((file) =>
+      changes.some((c) => c.path === file && c.status !== 'unchanged')
+    )
+
+    const diffs = dryRun ? diffChanges(outputDir, stagingDir, changes) : changes
+
+    if (!json) {
+      printChanges(
+        `${installed.name} (${agents.map((a) => getAgentConfig(a, workspaceRoot).name).join(', ')})`,
+        diffs,
+        edited
+      )
+    }
+
+    if (dryRun) {
+      return {
+        name: installed.name,
+        agents,
+        directory: outputDir,
+        files: diffs,
+      }
+    }
+
+    const baseDir = installed.store
+      ? getStoreBaseSnapshotDir(installed.name, workspaceRoot)
+      : installed.output
+        ? getOutputBaseSnapshotDir(outputDir)
+        : getBaseSnapshotDir(installed.name, agent, false, workspaceRoot)
+    let edits: LocalEdit[] = []
+    let resolution: EditResolution = 'upstream'
+
+    if (edited.length > 0) {
+      resolution = await promptForEditResolution(installed.name, edited)
+      edits = captureLocalEdits(outputDir, baseDir, edited)
+    }
+
+    const updated = {
+      name: installed.name,
+      source: installed.source,
+      ref: installed.ref,
+      // Keep the tag when re-rendering the same commit (e.g., reconfigure)
+      tag:
+        fetched.tag ??
+        (fetched.commit === installed.commit ? installed.tag : undefined),
+      commit: fetched.commit,
+      skillPath: getSkillPath(fetched, skillDir),
+      version: getSkillVersion(skillDir),
+    }
+
+    const fingerprints = fingerprintFiles(stagingDir, files)
+    const integrity = hashFiles(stagingDir, files)
+
+    // Build the new version next to the installed one and swap it in, so
+    // a failure leaves the previous version in place
+    let conflicted: string[] = []
+    await replaceDir(
+      outputDir,
+      (nextDir) => {
+        // Start from the installed files. Only files taito wrote are
+        // removed below, so files the user added are kept
+        if (!isNewInstall) {
+          cpSync(outputDir, nextDir, { recursive: true })
+        }
+        applyChanges(stagingDir, nextDir, changes)
+        conflicted = restoreLocalEdits(nextDir, edits, resolution)
+      },
+      () => {
+        for (const target of agents) {
+          const entry =
+            linked.find((l) => l.agent === target)?.skill ?? installed
+          const link = entry.link
+          const targetDir = getSkillOutputDir(
+            installed.name,
+            target,
+            false,
+            workspaceRoot
+          )
+
+          // Copies of the store are refreshed, symlinks already see the changes
+          if (installed.store && link) {
+            linkSkillDir(outputDir, targetDir, link)
+          }
+
+          // Native formats are regenerated from the rendered SKILL.md.
+          // Installs into a custom directory have none
+          const format = installed.output
+            ? undefined
+            : isNewInstall
+              ? getAgentConfig(target, workspaceRoot).format
+              : entry.format
+          if (format) {
+            writeAgentOutput(format, installed.name, targetDir, workspaceRoot)
+          }
+
+          recordInstalledSkill(
+            {
+              ...updated,
+              ...(installed.store ? { store: installed.store, link } : {}),
+              ...(installed.output ? { output: installed.output } : {}),
+              ...(format && format !== 'skill' ? { format } : {}),
+              customized: customizable,
+              variables: savedValues,
+              files: fingerprints,
+            },
+            target,
+            false,
+            workspaceRoot
+          )
+
+          recordLockedSkill(
+            {
+              ...updated,
+              ...(installed.store ? { store: installed.store, link } : {}),
+              ...(format && format !== 'skill' ? { format } : {}),
+              ...(installed.output
+                ? { output: installed.output }
+                : { agent: target }),
+              customized: customizable,
+              ...(customizable ? { variables: savedValues } : {}),
+              integrity,
+            },
+            workspaceRoot
+          )
+        }
+
+        saveBaseSnapshot(stagingDir, files, baseDir)
+      }
+    )
+
+    for (const file of conflicted) {
+      p.log.warn(`Merge conflicts in ${file}. Resolve the conflict markers.`)
+    }
+
+    if (isNewInstall) {
+      p.log.success(`Installed ${installed.name}`)
+    } else if (changes.every((change) => change.status === 'unchanged')) {
+      p.log.success(`${installed.name} is up to date`)
+    } else {
+      p.log.success(`Updated ${installed.name}`)
+    }
+  } finally {
+    rmSync(stagingDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Print a per-file summary of changes, with diffs where they were computed
+ */
+export function printChanges(
+  title: string,
+  changes: FileDiff[],
+  edited: string[] = []
+): void {
+  p.log.info(`${title}: ${summarizeChanges(changes)}`)
+
+  for (const change of changes) {
+    if (change.status === 'unchanged') {
+      continue
+    }
+
+    const editedLabel = edited.includes(change.path) ? ' (edited locally)' : ''
+    p.log.message(
+      `  ${changeSymbols[change.status]} ${change.path}${editedLabel}`
+    )
+
+    if (change.binary) {
+      p.log.message('    Binary file, no diff shown')
+    } else if (change.diff) {
+      p.log.message(formatDiff(change.diff))
+    }
+  }
+}
+
+/**
+ * Get the local installations that share a skill's canonical store copy
+ */
+export function getLinkedInstallations(
+  skill: InstalledSkill,
+  workspaceRoot: string
+): SkillInstallation[] {
+  if (!skill.store) {
+    return []
+  }
+
+  return getAllInstalledSkills(workspaceRoot).filter(
+    (installation) =>
+      !installation.global &&
+      installation.skill.name === skill.name &&
+      installation.skill.store === skill.store
+  )
+}
+
+/**
+ * Remove an installed skill from a specific agent
+ * Deletes the skill directory, its merge base and its metadata and lockfile
+ * entries. The store copy is removed with the last agent linking to it
+ */
+export function uninstallSkill(
+  skillName: string,
+  agent: AgentType,
+  workspaceRoot: string,
+  global: boolean = false
+): void {
+  const installed = getInstalledSkill(skillName, agent, global, workspaceRoot)
+  const skillDir = installed?.output
+    ? resolve(workspaceRoot, installed.output)
+    : getSkillOutputDir(skillName, agent, global, workspaceRoot)
+
+  // Remove directory (or the link to the store)
+  try {
+    rmSync(skillDir, { recursive: true, force: true })
+  } catch (error) {
+    const err = error as Error
+    throw new Error(`Failed to remove skill directory: ${err.message}`)
+  }
+
+  // Remove the merge base snapshot
+  rmSync(
+    installed?.output
+      ? getOutputBaseSnapshotDir(skillDir)
+      : getBaseSnapshotDir(skillName, agent, global, workspaceRoot),
+    { recursive: true, force: true }
+  )
+
+  // Remove from metadata and lockfile (global installs aren't locked)
+  removeSkillFromMetadata(skillName, agent, global, workspaceRoot)
+  if (!global) {
+    removeLockedSkill(skillName, agent, workspaceRoot, installed?.output)
+  }
+
+  // Native output can be shared by agents using the same format
+  if (
+    installed?.format &&
+    !getAllInstalledSkills(workspaceRoot).some(
+      ({ global, skill }) =>
+        !global && skill.name === skillName && skill.format === installed.format
+    )
+  ) {
+    removeAgentOutput(installed.format, skillName, workspaceRoot)
+  }
+
+  if (
+    installed?.store &&
+    getLinkedInstallations(installed, workspaceRoot).length === 0
+  ) {
+    rmSync(resolve(workspaceRoot, installed.store), {
+      recursive: true,
+      force: true,
+    })
+    rmSync(getStoreBaseSnapshotDir(skillName, workspaceRoot), {
+      recursive: true,
+      force: true,
+    })
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  cpSync,
+  lstatSync,
+  mkdirSync,
+  readlinkSync,
+  rmSync,
+  symlinkSync,
+} from 'node:fs'
+import { dirname, relative, resolve } from 'node:path'
+import type { LinkMode } from '../types.js'
+
+/**
+ * Check whether a directory is a symlink pointing at the given target
+ */
+export function isLinkedTo(linkPath: string, targetDir: string): boolean {
+  try {
+    if (!lstatSync(linkPath).isSymbolicLink()) {
+      return false
+    }
+    return (
+      resolve(dirname(linkPath), readlinkSync(linkPath)) === resolve(targetDir)
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Point an agent's skill directory at the canonical copy in the store
+ * Falls back to copying where symlinks aren't permitted (e.g., Windows
+ * without developer mode). Returns the mode that was used
+ */
+export function linkSkillDir(
+  storeDir: string,
+  linkPath: string,
+  mode: LinkMode
+): LinkMode {
+  if (mode === 'symlink' && isLinkedTo(linkPath, storeDir)) {
+    return 'symlink'
+  }
+
+  rmSync(linkPath, { recursive: true, force: true })
+  mkdirSync(dirname(linkPath), { recursive: true })
+
+  if (mode === 'symlink') {
+    try {
+      // Relative links keep working when the workspace is moved or cloned,
+      // but Windows junctions must be absolute
+      if (process.platform === 'win32') {
+        symlinkSync(resolve(storeDir), linkPath, 'junction')
+      } else {
+        symlinkSync(relative(dirname(linkPath), storeDir), linkPath, 'dir')
+      }
+      return 'symlink'
+    } catch {
+      // Fall through to copying
+    }
+  }
+
+  cpSync(storeDir, linkPath, { recursive: true })
+  return 'copy'
+}
@@ -0,0 +1,110 @@
+import { existsSync, readFileSync } from 'node:fs'
+import type { LockedSkill, TaitoLockfile } from '../types.js'
+import { writeFileAtomic } from './atomic.js'
+import { getLockfilePath } from './paths.js'
+
+const LOCKFILE_VERSION = 1
+
+/**
+ * Read the taito lockfile
+ * Unlike metadata, a corrupted lockfile is an error since it is committed
+ */
+export function readLockfile(workspaceRoot?: string): TaitoLockfile {
+  const lockfilePath = getLockfilePath(workspaceRoot)
+
+  if (!existsSync(lockfilePath)) {
+    return {
+      lockfileVersion: LOCKFILE_VERSION,
+      skills: [],
+    }
+  }
+
+  try {
+    const content = readFileSync(lockfilePath, 'utf-8')
+    return JSON.parse(content) as TaitoLockfile
+  } catch (error) {
+    const err = error as Error
+    throw new Error(`Failed to parse ${lockfilePath}: ${err.message}`)
+  }
+}
+
+/**
+ * Write the taito lockfile
+ * Entries are sorted so the file diffs cleanly in reviews
+ */
+export function writeLockfile(
+  lockfile: TaitoLockfile,
+  workspaceRoot?: string
+): void {
+  const lockfilePath = getLockfilePath(workspaceRoot)
+
+  lockfile.skills.sort(
+    (a, b) =>
+      a.name.localeCompare(b.name) ||
+      (a.agent ?? '').localeCompare(b.agent ?? '') ||
+      (a.output ?? '').localeCompare(b.output ?? '')
+  )
+
+  writeFileAtomic(lockfilePath, JSON.stringify(lockfile, null, 2) + '\n')
+}
+
+/**
+ * Check whether two lockfile entries point at the same installation
+ */
+function isSameInstallation(
+  a: Pick<LockedSkill, 'name' | 'agent' | 'output'>,
+  b: Pick<LockedSkill, 'name' | 'agent' | 'output'>
+): boolean {
+  return a.name === b.name && a.agent === b.agent && a.output === b.output
+}
+
+/**
+ * Add or update a skill in the lockfile
+ */
+export function recordLockedSkill(
+  skill: LockedSkill,
+  workspaceRoot?: string
+): void {
+  const lockfile = readLockfile(workspaceRoot)
+
+  // Remove existing entry if present
+  lockfile.skills = lockfile.skills.filter((s) => !isSameInstallation(s, skill))
+  lockfile.skills.push(skill)
+
+  writeLockfile(lockfile, workspaceRoot)
+}
+
+/**
+ * Remove a skill from the lockfile
+ * Skills installed into a custom output directory are found by that
+ * directory instead of the agent
+ */
+export function removeLockedSkill(
+  name: string,
+  agent?: string,
+  workspaceRoot?: string,
+  output?: string
+): boolean {
+  if (!existsSync(getLockfilePath(workspaceRoot))) {
+    return false
+  }
+
+  const lockfile = readLockfile(workspaceRoot)
+
+  const initialCount = lockfile.skills.length
+  lockfile.skills = lockfile.skills.filter(
+    (s) =>
+      !isSameInstallation(s, {
+        name,
+        agent: output ? undefined : agent,
+        output,
+      })
+  )
+
+  if (lockfile.skills.length === initialCount) {
+    return false // Skill not found
+  }
+
+  writeLockfile(lockfile, workspaceRoot)
+  return true
+}
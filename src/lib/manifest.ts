@@ -0,0 +1,98 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { parse as parseToml } from 'smol-toml'
+import type { ManifestSkill, TaitoManifest } from '../types.js'
+import { parseVariableValues } from './config.js'
+import { getManifestPath } from './paths.js'
+
+/**
+ * Read the project manifest (taito.toml)
+ * Returns null if the workspace has no manifest
+ */
+export function readManifest(workspaceRoot?: string): TaitoManifest | null {
+  const manifestPath = getManifestPath(workspaceRoot)
+
+  if (!existsSync(manifestPath)) {
+    return null
+  }
+
+  const content = readFileSync(manifestPath, 'utf-8')
+  return parseManifest(parseToml(content))
+}
+
+/**
+ * Parse a manifest from TOML
+ *
+ * agents = ["cursor"]
+ *
+ * [skills.react-localization]
+ * source = "owner/repo/react-localization"
+ * ref = "v1.2.0"
+ *
+ * [skills.react-localization.variables]
+ * SOURCE_LANGUAGE = "en"
+ */
+function parseManifest(parsed: Record<string, unknown>): TaitoManifest {
+  const agents = parseStringArray(parsed.agents, 'agents')
+
+  const skillsTable = parsed.skills ?? {}
+  if (typeof skillsTable !== 'object' || Array.isArray(skillsTable)) {
+    throw new Error('Invalid [skills] section in taito.toml')
+  }
+
+  const skills: ManifestSkill[] = Object.entries(skillsTable).map(
+    ([name, value]) => parseManifestSkill(name, value)
+  )
+
+  return { agents, skills }
+}
+
+/**
+ * Parse a single [skills.<name>] table
+ */
+function parseManifestSkill(name: string, value: unknown): ManifestSkill {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid skill '${name}' in taito.toml`)
+  }
+
+  const skill = value as Record<string, unknown>
+
+  if (typeof skill.source !== 'string' || !skill.source) {
+    throw new Error(`Skill '${name}' in taito.toml is missing 'source'`)
+  }
+
+  if (skill.ref !== undefined && typeof skill.ref !== 'string') {
+    throw new Error(`Invalid 'ref' for skill '${name}' in taito.toml`)
+  }
+
+  if (
+    skill.variables !== undefined &&
+    (typeof skill.variables !== 'object' || skill.variables === null)
+  ) {
+    throw new Error(`Invalid 'variables' for skill '${name}' in taito.toml`)
+  }
+
+  return {
+    name,
+    source: skill.source,
+    ref: skill.ref,
+    agents: parseStringArray(skill.agents, `skills.${name}.agents`),
+    variables: skill.variables
+      ? parseVariableValues(skill.variables as Record<string, unknown>)
+      : undefined,
+  }
+}
+
+/**
+ * Parse an optional array of strings
+ */
+function parseStringArray(value: unknown, key: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new Error(`'${key}' in taito.toml must be an array of strings`)
+  }
+
+  return value as string[]
+}
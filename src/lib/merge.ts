@@ -0,0 +1,129 @@
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  content: string
+  conflicts: number // number of conflicting hunks
+}
+
+/**
+ * Three-way merge of text files, line by line (diff3 style)
+ * Changes made on only one side are applied; hunks changed differently on
+ * both sides are wrapped in conflict markers
+ */
+export function mergeText(
+  base: string,
+  local: string,
+  upstream: string
+): MergeResult {
+  const baseLines = base.split('\n')
+  const localLines = local.split('\n')
+  const upstreamLines = upstream.split('\n')
+
+  // Map base line indices to matching lines on each side
+  const localMatches = matchLines(baseLines, localLines)
+  const upstreamMatches = matchLines(baseLines, upstreamLines)
+
+  const result: string[] = []
+  let conflicts = 0
+  let o = 0
+  let a = 0
+  let b = 0
+
+  while (
+    o < baseLines.length ||
+    a < localLines.length ||
+    b < upstreamLines.length
+  ) {
+    // Find the next base line that is unchanged on both sides
+    let i = o
+    while (
+      i < baseLines.length &&
+      !(localMatches.has(i) && upstreamMatches.has(i))
+    ) {
+      i++
+    }
+
+    const aEnd = i < baseLines.length ? localMatches.get(i)! : localLines.length
+    const bEnd =
+      i < baseLines.length ? upstreamMatches.get(i)! : upstreamLines.length
+
+    // Resolve the hunk between the previous and next stable line
+    const baseHunk = baseLines.slice(o, i)
+    const localHunk = localLines.slice(a, aEnd)
+    const upstreamHunk = upstreamLines.slice(b, bEnd)
+
+    if (linesEqual(localHunk, baseHunk)) {
+      result.push(...upstreamHunk)
+    } else if (
+      linesEqual(upstreamHunk, baseHunk) ||
+      linesEqual(localHunk, upstreamHunk)
+    ) {
+      result.push(...localHunk)
+    } else {
+      conflicts++
+      result.push(
+        '<<<<<<< local',
+        ...localHunk,
+        '=======',
+        ...upstreamHunk,
+        '>>>>>>> upstream'
+      )
+    }
+
+    if (i === baseLines.length) {
+      break
+    }
+
+    result.push(baseLines[i])
+    o = i + 1
+    a = aEnd + 1
+    b = bEnd + 1
+  }
+
+  return { content: result.join('\n'), conflicts }
+}
+
+/**
+ * Compare two arrays of lines
+ */
+function linesEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i])
+}
+
+/**
+ * Match lines between two files using their longest common subsequence
+ * Returns a map from indices in `from` to indices in `to`, in order
+ */
+export function matchLines(from: string[], to: string[]): Map<number, number> {
+  const n = from.length
+  const m = to.length
+
+  // lengths[i][j] = LCS length of from[i..] and to[j..]
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        from[i] === to[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const matches = new Map<number, number>()
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (from[i] === to[j]) {
+      matches.set(i, j)
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return matches
+}
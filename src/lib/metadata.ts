@@ -1,10 +1,25 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
-import { dirname } from 'node:path'
-import type { InstalledSkill, TaitoMetadata, VariableValues } from '../types.js'
-import { getMetadataPath, type AgentType } from './paths.js'
+import { existsSync, readFileSync } from 'node:fs'
+import type { InstalledSkill, TaitoMetadata } from '../types.js'
+import { writeFileAtomic } from './atomic.js'
+import {
+  findWorkspaceRoot,
+  getAgentRegistry,
+  getMetadataPath,
+  parseAgentList,
+  type AgentType,
+} from './paths.js'
 
 const CURRENT_VERSION = '1.0'
 
+/**
+ * An installed skill together with where it is installed
+ */
+export interface SkillInstallation {
+  agent: AgentType
+  global: boolean
+  skill: InstalledSkill
+}
+
 /**
  * Read the taito metadata file
  */
@@ -23,8 +38,7 @@ export function readMetadata(
   }
 
   try {
-    const content = readFileSync(metadataPath, 'utf-8')
-    return JSON.parse(content) as TaitoMetadata
+    return parseMetadataFile(metadataPath)
   } catch {
     return {
       version: CURRENT_VERSION,
@@ -33,8 +47,29 @@ export function readMetadata(
   }
 }
 
+/**
+ * Parse a metadata file, throwing if it is corrupted
+ * readMetadata treats corrupted files as empty; `taito doctor` reports them
+ */
+export function parseMetadataFile(metadataPath: string): TaitoMetadata {
+  let metadata: TaitoMetadata
+  try {
+    metadata = JSON.parse(readFileSync(metadataPath, 'utf-8'))
+  } catch (error) {
+    const err = error as Error
+    throw new Error(`Failed to parse ${metadataPath}: ${err.message}`)
+  }
+
+  if (!Array.isArray(metadata?.skills)) {
+    throw new Error(`Invalid ${metadataPath}: missing skills list`)
+  }
+
+  return metadata
+}
+
 /**
  * Write the taito metadata file
+ * Written atomically, so an interrupted write can't corrupt it
  */
 export function writeMetadata(
   metadata: TaitoMetadata,
@@ -42,22 +77,17 @@ export function writeMetadata(
   global?: boolean,
   workspaceRoot?: string
 ): void {
-  const metadataPath = getMetadataPath(agent, global, workspaceRoot)
-
-  // Ensure directory exists
-  mkdirSync(dirname(metadataPath), { recursive: true })
-
-  writeFileSync(metadataPath, JSON.stringify(metadata, null, 2))
+  writeFileAtomic(
+    getMetadataPath(agent, global, workspaceRoot),
+    JSON.stringify(metadata, null, 2)
+  )
 }
 
 /**
  * Add or update an installed skill in metadata
  */
 export function recordInstalledSkill(
-  name: string,
-  source: string,
-  customized: boolean,
-  variables?: VariableValues,
+  skill: Omit<InstalledSkill, 'installedAt'>,
   agent?: AgentType,
   global?: boolean,
   workspaceRoot?: string
@@ -65,18 +95,15 @@ export function recordInstalledSkill(
   const metadata = readMetadata(agent, global, workspaceRoot)
 
   // Remove existing entry if present
-  metadata.skills = metadata.skills.filter((s) => s.name !== name)
+  metadata.skills = metadata.skills.filter((s) => s.name !== skill.name)
 
   // Add new entry
-  const skill: InstalledSkill = {
-    name,
-    source,
+  const { variables, ...rest } = skill
+  metadata.skills.push({
+    ...rest,
     installedAt: new Date().toISOString(),
-    customized,
-    ...(customized && variables ? { variables } : {}),
-  }
-
-  metadata.skills.push(skill)
+    ...(skill.customized && variables ? { variables } : {}),
+  })
 
   writeMetadata(metadata, agent, global, workspaceRoot)
 }
@@ -115,6 +142,20 @@ export function getInstalledSkills(
   return metadata.skills
 }
 
+/**
+ * Get a single installed skill by name
+ */
+export function getInstalledSkill(
+  name: string,
+  agent?: AgentType,
+  global?: boolean,
+  workspaceRoot?: string
+): InstalledSkill | undefined {
+  return getInstalledSkills(agent, global, workspaceRoot).find(
+    (s) => s.name === name
+  )
+}
+
 /**
  * Check if a skill is installed
  */
@@ -127,3 +168,74 @@ export function isSkillInstalled(
   const metadata = readMetadata(agent, global, workspaceRoot)
   return metadata.skills.some((s) => s.name === name)
 }
+
+/**
+ * Get installed skills across all agents, locally and globally
+ * Agents that share a skills directory are only read once
+ */
+export function getAllInstalledSkills(
+  workspaceRoot?: string
+): SkillInstallation[] {
+  const installations: SkillInstallation[] = []
+  const seenPaths = new Set<string>()
+  const registry = getAgentRegistry(workspaceRoot ?? findWorkspaceRoot())
+
+  for (const agent of Object.keys(registry)) {
+    for (const global of [false, true]) {
+      if (global && !registry[agent].globalPath) {
+        continue
+      }
+
+      const metadataPath = getMetadataPath(agent, global, workspaceRoot)
+      if (seenPaths.has(metadataPath) || !existsSync(metadataPath)) {
+        continue
+      }
+      seenPaths.add(metadataPath)
+
+      for (const skill of getInstalledSkills(agent, global, workspaceRoot)) {
+        installations.push({ agent, global, skill })
+      }
+    }
+  }
+
+  return installations
+}
+
+/**
+ * Which installations a command acts on
+ * Local installations by default
+ */
+export interface InstallationScope {
+  agent?: string // comma-separated agents, case-insensitive
+  global?: boolean // only global installations
+  allScopes?: boolean // local and global installations
+}
+
+/**
+ * Get installed skills within a scope
+ * Agents that share a skills directory match each other's installations
+ */
+export function findInstallations(
+  scope: InstallationScope,
+  workspaceRoot?: string
+): SkillInstallation[] {
+  const root = workspaceRoot ?? findWorkspaceRoot()
+  const agents = scope.agent ? parseAgentList(scope.agent, root) : undefined
+
+  return getAllInstalledSkills(root).filter(({ agent, global }) => {
+    if (!scope.allScopes && global !== !!scope.global) {
+      return false
+    }
+
+    if (!agents) {
+      return true
+    }
+
+    const metadataPath = getMetadataPath(agent, global, root)
+    return agents.some(
+      (target) =>
+        (!global || getAgentRegistry(root)[target].globalPath) &&
+        getMetadataPath(target, global, root) === metadataPath
+    )
+  })
+}
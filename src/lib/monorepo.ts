@@ -0,0 +1,164 @@
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { dirname, join, relative } from 'node:path'
+
+/**
+ * A package in a monorepo workspace
+ */
+export interface WorkspacePackage {
+  name: string // name from package.json, or the directory path
+  dir: string // absolute path
+  relativePath: string // path from the monorepo root
+}
+
+/**
+ * Get the marker that makes a directory a monorepo root, if any
+ * pnpm-workspace.yaml, a package.json with workspaces, or turbo.json
+ */
+export function getMonorepoMarker(dir: string): string | null {
+  if (existsSync(join(dir, 'pnpm-workspace.yaml'))) {
+    return 'pnpm-workspace.yaml'
+  }
+
+  if (readPackageJson(dir)?.workspaces) {
+    return 'package.json workspaces'
+  }
+
+  if (existsSync(join(dir, 'turbo.json'))) {
+    return 'turbo.json'
+  }
+
+  return null
+}
+
+/**
+ * Get the package globs of a monorepo, from pnpm-workspace.yaml or the
+ * workspaces field of package.json
+ * Globs starting with ! exclude packages
+ */
+export function getWorkspacePatterns(root: string): string[] {
+  const pnpmWorkspacePath = join(root, 'pnpm-workspace.yaml')
+  if (existsSync(pnpmWorkspacePath)) {
+    return parsePnpmWorkspace(readFileSync(pnpmWorkspacePath, 'utf-8'))
+  }
+
+  // npm and Yarn accept an array or { packages: [...] }
+  const workspaces = readPackageJson(root)?.workspaces
+  const patterns = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages
+
+  return Array.isArray(patterns)
+    ? patterns.filter((pattern) => typeof pattern === 'string')
+    : []
+}
+
+/**
+ * Find the packages of a monorepo: directories with a package.json that
+ * match its workspace globs
+ */
+export function findWorkspacePackages(root: string): WorkspacePackage[] {
+  const patterns = getWorkspacePatterns(root)
+  const includes = patterns.filter((pattern) => !pattern.startsWith('!'))
+  const excludes = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => new Bun.Glob(normalizePattern(pattern.slice(1))))
+
+  const dirs = new Set<string>()
+  for (const pattern of includes) {
+    const glob = new Bun.Glob(join(normalizePattern(pattern), 'package.json'))
+    for (const file of glob.scanSync({ cwd: root, onlyFiles: true })) {
+      const relativePath = relative(root, dirname(join(root, file)))
+      if (
+        relativePath &&
+        !relativePath.split('/').includes('node_modules') &&
+        !excludes.some((exclude) => exclude.match(relativePath))
+      ) {
+        dirs.add(relativePath)
+      }
+    }
+  }
+
+  return [...dirs].sort().map((relativePath) => {
+    const dir = join(root, relativePath)
+    const name = readPackageJson(dir)?.name
+    return {
+      name: typeof name === 'string' && name ? name : relativePath,
+      dir,
+      relativePath,
+    }
+  })
+}
+
+/**
+ * Find the packages matching a glob, by package name or by path from the
+ * monorepo root (e.g. "@acme/*" or "apps/*"), comma-separated
+ */
+export function matchWorkspacePackages(
+  pattern: string,
+  root: string
+): WorkspacePackage[] {
+  const globs = pattern
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter(Boolean)
+    .map((glob) => new Bun.Glob(normalizePattern(glob)))
+
+  return findWorkspacePackages(root).filter((pkg) =>
+    globs.some((glob) => glob.match(pkg.name) || glob.match(pkg.relativePath))
+  )
+}
+
+/**
+ * Read the packages list of pnpm-workspace.yaml
+ *
+ * packages:
+ *   - 'apps/*'
+ *   - "packages/**"
+ */
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = []
+  let inPackages = false
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true
+      continue
+    }
+
+    // Any other top-level key ends the list
+    if (/^\S/.test(line)) {
+      inPackages = false
+      continue
+    }
+
+    const item = line.match(/^\s+-\s*(.+?)\s*$/)
+    if (inPackages && item) {
+      patterns.push(item[1].replace(/^(['"])(.*)\1$/, '$2'))
+    }
+  }
+
+  return patterns
+}
+
+/**
+ * Strip a leading ./ and trailing slash from a workspace glob
+ */
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '')
+}
+
+/**
+ * Read a directory's package.json, or null if missing or invalid
+ */
+function readPackageJson(dir: string): Record<string, unknown> | null {
+  const packageJsonPath = join(dir, 'package.json')
+
+  try {
+    if (!statSync(packageJsonPath).isFile()) {
+      return null
+    }
+    return JSON.parse(readFileSync(packageJsonPath, 'utf-8'))
+  } catch {
+    return null
+  }
+}
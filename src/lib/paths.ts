@@ -1,9 +1,13 @@
-import { existsSync, readFileSync } from 'node:fs'
+import { existsSync, readFileSync, statSync } from 'node:fs'
 import { homedir } from 'node:os'
-import { join, resolve } from 'node:path'
+import { basename, dirname, isAbsolute, join, resolve } from 'node:path'
 import JSON5 from 'json5'
+import { parse as parseToml } from 'smol-toml'
+import type { OutputFormat } from '../types.js'
+import { isOutputFormat, outputFormats } from './adapters.js'
+import { getMonorepoMarker } from './monorepo.js'
 
-export type AgentType =
+export type BuiltinAgentType =
   | 'claudeCode'
   | 'clawdbot'
   | 'codex'
@@ -18,222 +22,530 @@ export type AgentType =
   | 'windsurf'
   | 'antigravity'
 
-interface AgentConfig {
+/**
+ * A built-in agent or one defined in agents.toml
+ */
+export type AgentType = BuiltinAgentType | (string & {})
+
+export interface AgentConfig {
   name: string
   localPath: string
   globalPath?: string
-  marker?: string // directory marker to detect this agent
+  markers?: string[] // directory markers to detect this agent
+  priority?: number // detection order, lowest first
+  format?: OutputFormat // native format written besides the skill directory
+  definedIn?: string // agents.toml that added or overrode this agent
 }
 
+/**
+ * Detection priority for agents.toml entries without one (after the built-ins)
+ */
+const DEFAULT_AGENT_PRIORITY = 1000
+
 /**
  * Configuration for different AI agents and their skill directories
  */
-export const agentConfigs: Record<AgentType, AgentConfig> = {
+export const agentConfigs: Record<BuiltinAgentType, AgentConfig> = {
   claudeCode: {
     name: 'Claude Code',
     localPath: '.claude/skills',
     globalPath: join(homedir(), '.claude', 'skills'),
-    marker: '.claude',
+    markers: ['.claude'],
+    priority: 20,
   },
   clawdbot: {
     name: 'Clawdbot',
     localPath: 'skills', // Clawdbot uses <workspace>/skills, not a hidden directory
-    marker: '.clawdhub',
+    markers: ['.clawdhub'],
+    priority: 30,
   },
   codex: {
     name: 'Codex',
     localPath: '.codex/skills',
     globalPath: join(homedir(), '.codex', 'skills'),
-    marker: '.codex',
+    markers: ['.codex'],
+    priority: 60,
   },
   cursor: {
     name: 'Cursor',
     localPath: '.cursor/skills',
-    marker: '.cursor',
+    markers: ['.cursor'],
+    priority: 10,
   },
   opencode: {
     name: 'OpenCode',
     localPath: '.opencode/skill',
     globalPath: join(homedir(), '.config/opencode/skill'),
-    marker: '.opencode',
+    markers: ['.opencode'],
+    priority: 50,
   },
   github: {
     name: 'GitHub',
     localPath: '.github/skills',
-    marker: '.github',
+    markers: ['.github'],
+    priority: 120,
   },
   vsCode: {
     name: 'VS Code',
     localPath: '.github/skills',
-    marker: '.vscode',
+    markers: ['.vscode'],
+    priority: 130,
   },
   amp: {
     name: 'AMP',
     localPath: '.agents/skills',
     globalPath: join(homedir(), '.config/agents/skills'),
-    marker: '.agents',
+    markers: ['.agents'],
+    priority: 100,
   },
   goose: {
     name: 'Goose',
     localPath: '.agents/skills',
     globalPath: join(homedir(), '.config/goose/skills'),
+    priority: 110,
   },
   gemini: {
     name: 'Gemini CLI',
     localPath: '.gemini/skills',
     globalPath: join(homedir(), '.gemini/skills'),
-    marker: '.gemini',
+    markers: ['.gemini'],
+    priority: 70,
   },
   trae: {
     name: 'Trae',
     localPath: '.trae/skills',
-    marker: '.trae',
+    markers: ['.trae'],
+    priority: 80,
   },
   windsurf: {
     name: 'Windsurf',
     localPath: '.windsurf/skills',
     globalPath: join(homedir(), '.codeium/windsurf/skills'),
-    marker: '.windsurf',
+    markers: ['.windsurf'],
+    priority: 40,
   },
   antigravity: {
     name: 'Antigravity',
     localPath: '.agent/skills',
     globalPath: join(homedir(), '.gemini/antigravity/skills'),
-    marker: '.agent',
+    markers: ['.agent'],
+    priority: 90,
   },
 }
 
+/**
+ * Get the user's agent definitions file (~/.config/taito/agents.toml)
+ */
+export function getUserAgentsPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME ?? join(homedir(), '.config')
+  return join(configHome, 'taito', 'agents.toml')
+}
+
+/**
+ * Get the user's answer store (~/.config/taito/answers.json)
+ */
+export function getUserAnswersPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME ?? join(homedir(), '.config')
+  return join(configHome, 'taito', 'answers.json')
+}
+
+/**
+ * Get the workspace's answer store (.taito/answers.json)
+ */
+export function getWorkspaceAnswersPath(workspaceRoot?: string): string {
+  return join(workspaceRoot ?? findWorkspaceRoot(), '.taito', 'answers.json')
+}
+
+/**
+ * Get the project's agent definitions file (.taito/agents.toml)
+ */
+export function getProjectAgentsPath(workspaceRoot: string): string {
+  return join(workspaceRoot, '.taito', 'agents.toml')
+}
+
+/**
+ * Get the agent registry: built-ins, overridden by the user's agents.toml,
+ * overridden by the project's agents.toml
+ * Without a workspace root, project definitions are skipped
+ */
+export function getAgentRegistry(
+  workspaceRoot?: string
+): Record<AgentType, AgentConfig> {
+  const registry: Record<AgentType, AgentConfig> = { ...agentConfigs }
+
+  mergeAgentsFile(registry, getUserAgentsPath())
+  if (workspaceRoot) {
+    mergeAgentsFile(registry, getProjectAgentsPath(workspaceRoot))
+  }
+
+  return registry
+}
+
+/**
+ * Get the configuration of a single agent
+ */
+export function getAgentConfig(
+  agent: AgentType,
+  workspaceRoot?: string
+): AgentConfig {
+  const config = getAgentRegistry(workspaceRoot ?? findWorkspaceRoot())[agent]
+
+  if (!config) {
+    throw new Error(
+      `Unknown agent '${agent}'. Define it in ${getUserAgentsPath()} or .taito/agents.toml`
+    )
+  }
+
+  return config
+}
+
+/**
+ * Get agents in detection order (lowest priority first)
+ */
+export function getAgentsByPriority(workspaceRoot?: string): AgentType[] {
+  const registry = getAgentRegistry(workspaceRoot ?? findWorkspaceRoot())
+
+  return Object.keys(registry).sort(
+    (a, b) =>
+      (registry[a].priority ?? DEFAULT_AGENT_PRIORITY) -
+      (registry[b].priority ?? DEFAULT_AGENT_PRIORITY)
+  )
+}
+
+/**
+ * Merge the agents defined in an agents.toml file into a registry
+ *
+ * [agents.zed]
+ * name = "Zed"
+ * local_path = ".zed/skills"
+ * global_path = "~/.config/zed/skills"
+ * markers = [".zed"]
+ * priority = 15
+ * format = "agents-md"
+ */
+function mergeAgentsFile(
+  registry: Record<AgentType, AgentConfig>,
+  filePath: string
+): void {
+  if (!existsSync(filePath)) {
+    return
+  }
+
+  const parsed = parseToml(readFileSync(filePath, 'utf-8'))
+  const agentsTable = parsed.agents ?? {}
+  if (typeof agentsTable !== 'object' || Array.isArray(agentsTable)) {
+    throw new Error(`Invalid [agents] section in ${filePath}`)
+  }
+
+  for (const [key, value] of Object.entries(agentsTable)) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Invalid agent '${key}' in ${filePath}`)
+    }
+
+    // Entries override built-ins case-insensitively (e.g., [agents.Cursor])
+    const agent =
+      Object.keys(registry).find(
+        (existing) => existing.toLowerCase() === key.toLowerCase()
+      ) ?? key
+    const existing = registry[agent] as AgentConfig | undefined
+    const entry = value as Record<string, unknown>
+
+    const field = (name: string, type: 'string' | 'number') => {
+      if (entry[name] !== undefined && typeof entry[name] !== type) {
+        throw new Error(
+          `Agent '${key}' in ${filePath} has an invalid '${name}' (expected a ${type})`
+        )
+      }
+      return entry[name] as never
+    }
+
+    const name: string | undefined = field('name', 'string')
+    const localPath: string | undefined = field('local_path', 'string')
+    const globalPath: string | undefined = field('global_path', 'string')
+    const priority: number | undefined = field('priority', 'number')
+    const format: string | undefined = field('format', 'string')
+    const markers = parseMarkers(entry.markers ?? entry.marker, key, filePath)
+
+    if (format && !isOutputFormat(format)) {
+      throw new Error(
+        `Agent '${key}' in ${filePath} has an unknown format '${format}'. Available formats: ${outputFormats.join(', ')}`
+      )
+    }
+
+    if (!existing && !localPath) {
+      throw new Error(`Agent '${key}' in ${filePath} is missing 'local_path'`)
+    }
+
+    registry[agent] = {
+      name: name ?? existing?.name ?? key,
+      localPath: localPath ?? existing!.localPath,
+      globalPath: globalPath ? expandHome(globalPath) : existing?.globalPath,
+      markers: markers ?? existing?.markers,
+      priority: priority ?? existing?.priority,
+      format: (format as OutputFormat | undefined) ?? existing?.format,
+      definedIn: filePath,
+    }
+  }
+}
+
+/**
+ * Parse `markers` (or a single `marker`) from an agents.toml entry
+ */
+function parseMarkers(
+  value: unknown,
+  agent: string,
+  filePath: string
+): string[] | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const markers = typeof value === 'string' ? [value] : value
+  if (
+    !Array.isArray(markers) ||
+    markers.some((marker) => typeof marker !== 'string')
+  ) {
+    throw new Error(
+      `Agent '${agent}' in ${filePath} has invalid 'markers' (expected strings)`
+    )
+  }
+
+  return markers
+}
+
+/**
+ * Expand a leading ~ to the home directory
+ */
+function expandHome(path: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1))
+  }
+  return isAbsolute(path) ? path : resolve(path)
+}
+
+/**
+ * Find the first of an agent's markers that exists in a directory
+ */
+function findAgentMarker(config: AgentConfig, dir: string): string | undefined {
+  return config.markers?.find((marker) => existsSync(join(dir, marker)))
+}
+
+/**
+ * Resolve an agent name case-insensitively (e.g., "ClaudeCode" → claudeCode)
+ */
+export function resolveAgentType(
+  input: string,
+  workspaceRoot?: string
+): AgentType | undefined {
+  const normalizedInput = input.toLowerCase()
+
+  return Object.keys(
+    getAgentRegistry(workspaceRoot ?? findWorkspaceRoot())
+  ).find((key) => key.toLowerCase() === normalizedInput)
+}
+
+/**
+ * Resolve a comma-separated list of agent names (e.g., "cursor,ClaudeCode")
+ * Throws on unknown agents
+ */
+export function parseAgentList(
+  input: string,
+  workspaceRoot?: string
+): AgentType[] {
+  const root = workspaceRoot ?? findWorkspaceRoot()
+
+  return input
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => {
+      const agent = resolveAgentType(name, root)
+      if (!agent) {
+        throw new Error(
+          `Unknown agent: ${name}. Available agents: ${Object.keys(getAgentRegistry(root)).join(', ')}`
+        )
+      }
+      return agent
+    })
+}
+
+// Workspace root chosen with --root, used instead of detection
+let workspaceRootOverride: string | undefined
+
+/**
+ * Use a directory as the workspace root instead of detecting it
+ * Pass undefined to go back to detection
+ */
+export function setWorkspaceRoot(dir: string | undefined): void {
+  if (dir === undefined) {
+    workspaceRootOverride = undefined
+    return
+  }
+
+  const root = resolve(dir)
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    throw new Error(`Workspace root not found: ${dir}`)
+  }
+  workspaceRootOverride = root
+}
+
 /**
  * Find the workspace root by looking for common markers
  */
-export function findWorkspaceRoot(startDir: string = process.cwd()): string {
-  let current = resolve(startDir)
+export function findWorkspaceRoot(startDir?: string): string {
+  return locateWorkspaceRoot(startDir).root
+}
+
+/**
+ * Find the monorepo root that --package globs are matched from, even
+ * when run inside a package with taito state of its own
+ */
+export function findMonorepoRoot(): string {
+  return locateWorkspaceRoot(undefined, false).root
+}
+
+/**
+ * Find the workspace root and the marker that identified it
+ * The marker is undefined when no marker was found and the start
+ * directory is used, explicit is set when the root was chosen with --root
+ * A monorepo root (pnpm-workspace.yaml, package.json workspaces or
+ * turbo.json) up to the repository root wins over markers inside packages,
+ * unless the package has taito state of its own (taito.lock or taito.toml,
+ * as written by add --package) and preferPackages is set
+ */
+export function locateWorkspaceRoot(
+  startDir?: string,
+  preferPackages: boolean = true
+): {
+  root: string
+  marker?: string
+  explicit?: boolean
+} {
+  if (startDir === undefined && workspaceRootOverride) {
+    return { root: workspaceRootOverride, explicit: true }
+  }
+
+  const start = startDir ?? process.cwd()
+  let current = resolve(start)
   const root = resolve('/')
+  let found: { root: string; marker: string } | undefined
+  let managed: { root: string; marker: string } | undefined
+
+  // Project agents.toml can't be read before the root is known
+  const agents = Object.values(getAgentRegistry())
 
   while (current !== root) {
-    // Check for workspace markers in order of preference
-    // First check for agent-specific directories
-    for (const config of Object.values(agentConfigs)) {
-      if (config.marker && existsSync(join(current, config.marker))) {
-        return current
+    const monorepoMarker = getMonorepoMarker(current)
+    if (monorepoMarker) {
+      return managed ?? { root: current, marker: monorepoMarker }
+    }
+
+    if (preferPackages && !managed) {
+      const marker = ['taito.lock', 'taito.toml'].find((name) =>
+        existsSync(join(current, name))
+      )
+      if (marker) {
+        managed = { root: current, marker }
       }
     }
 
-    // Then check for version control
-    if (existsSync(join(current, '.git'))) {
-      return current
+    // Check for workspace markers in order of preference
+    // First check for agent-specific directories, then for version
+    // control, finally for package.json
+    if (!found) {
+      for (const config of agents) {
+        const marker = findAgentMarker(config, current)
+        if (marker) {
+          found = { root: current, marker }
+          break
+        }
+      }
     }
 
-    // Finally check for package.json
-    if (existsSync(join(current, 'package.json'))) {
-      return current
+    for (const marker of ['.git', 'package.json']) {
+      if (!found && existsSync(join(current, marker))) {
+        found = { root: current, marker }
+      }
     }
 
+    // A monorepo doesn't extend past its repository
+    if (existsSync(join(current, '.git'))) break
+
     const parent = resolve(current, '..')
     if (parent === current) break
     current = parent
   }
 
   // Fallback to start directory
-  return startDir
+  return found ?? { root: start }
 }
 
 /**
  * Detect which agent is being used in the workspace
- * Returns the first agent found, or null if none detected
+ * Returns the first agent found by priority, or null if none detected
  */
 export function detectAgent(workspaceRoot?: string): AgentType | null {
-  const root = workspaceRoot ?? findWorkspaceRoot()
-
-  // Check for agent markers in order of preference
-  const checkOrder: AgentType[] = [
-    'cursor',
-    'claudeCode',
-    'clawdbot',
-    'windsurf',
-    'opencode',
-    'codex',
-    'gemini',
-    'trae',
-    'antigravity',
-    'amp',
-    'goose',
-    'github',
-    'vsCode',
-  ]
-
-  for (const agentType of checkOrder) {
-    // Special handling for Clawdbot
-    if (agentType === 'clawdbot') {
-      if (isClawdbotAvailable(root)) {
-        return 'clawdbot'
-      }
-      continue
-    }
-
-    const config = agentConfigs[agentType]
-    if (config.marker && existsSync(join(root, config.marker))) {
-      return agentType
-    }
-  }
-
-  return null
+  return detectAllAgents(workspaceRoot)[0] ?? null
 }
 
 /**
- * Get all agents detected in the workspace
+ * Get all agents detected in the workspace, in priority order
  */
 export function detectAllAgents(workspaceRoot?: string): AgentType[] {
   const root = workspaceRoot ?? findWorkspaceRoot()
-  const detected: AgentType[] = []
+  const registry = getAgentRegistry(root)
 
-  for (const [agentType, config] of Object.entries(agentConfigs)) {
-    // Special handling for Clawdbot - check multiple indicators
-    if (agentType === 'clawdbot') {
-      if (isClawdbotAvailable(root)) {
-        detected.push('clawdbot')
-      }
-      continue
-    }
+  return getAgentsByPriority(root).filter(
+    (agentType) => getDetectionMarker(agentType, root, registry) !== null
+  )
+}
 
-    if (config.marker && existsSync(join(root, config.marker))) {
-      detected.push(agentType as AgentType)
-    }
+/**
+ * Get the marker that makes an agent detected in the workspace
+ * Returns null if the agent isn't detected
+ */
+export function getDetectionMarker(
+  agent: AgentType,
+  workspaceRoot: string,
+  registry: Record<AgentType, AgentConfig> = getAgentRegistry(workspaceRoot)
+): string | null {
+  // Special handling for Clawdbot - check multiple indicators
+  if (agent === 'clawdbot') {
+    return findClawdbotIndicator(workspaceRoot)
   }
 
-  return detected
+  return findAgentMarker(registry[agent], workspaceRoot) ?? null
 }
 
 /**
- * Check if Clawdbot is available/installed
+ * Check if Clawdbot is available/installed, returning what indicated it
  * Clawdbot is considered available if:
  * 1. CLAWDHUB_WORKDIR environment variable is set
  * 2. Current directory has .clawdhub or .clawdbot marker
  * 3. Clawdbot config file exists (~/.clawdbot/clawdbot.json)
  */
-function isClawdbotAvailable(workspaceRoot: string): boolean {
+function findClawdbotIndicator(workspaceRoot: string): string | null {
   // 1. CLAWDHUB_WORKDIR is set
   if (process.env.CLAWDHUB_WORKDIR) {
-    return true
+    return '$CLAWDHUB_WORKDIR'
   }
 
   // 2. Check for markers in current workspace
   // .clawdhub is the ClawdHub workspace marker
   // .clawdbot is the Clawdbot agent config directory
-  if (
-    existsSync(join(workspaceRoot, '.clawdhub')) ||
-    existsSync(join(workspaceRoot, '.clawdbot'))
-  ) {
-    return true
+  for (const marker of ['.clawdhub', '.clawdbot']) {
+    if (existsSync(join(workspaceRoot, marker))) {
+      return marker
+    }
   }
 
   // 3. Clawdbot config file exists (user has Clawdbot installed)
   const configPath = getClawdbotConfigPath()
   if (configPath && existsSync(configPath)) {
-    return true
+    return configPath
   }
 
-  return false
+  return null
 }
 
 /**
@@ -354,8 +666,9 @@ export function getSkillsDir(
   workspaceRoot?: string
 ): string {
   // If no agent specified, try to detect or default to cursor
-  const agentType = agent ?? detectAgent(workspaceRoot) ?? 'cursor'
-  const config = agentConfigs[agentType]
+  const root = workspaceRoot ?? findWorkspaceRoot()
+  const agentType = agent ?? detectAgent(root) ?? 'cursor'
+  const config = getAgentConfig(agentType, root)
 
   if (global) {
     if (!config.globalPath) {
@@ -372,7 +685,6 @@ export function getSkillsDir(
     return join(clawdbotWorkspace, config.localPath)
   }
 
-  const root = workspaceRoot ?? findWorkspaceRoot()
   return join(root, config.localPath)
 }
 
@@ -399,6 +711,83 @@ export function getMetadataPath(
   return join(getSkillsDir(agent, global, workspaceRoot), '.taito-meta.json')
 }
 
+/**
+ * Get the directory holding the last rendered copy of a skill
+ * Used as the merge base when the installed copy has local edits
+ */
+export function getBaseSnapshotDir(
+  skillName: string,
+  agent?: AgentType,
+  global?: boolean,
+  workspaceRoot?: string
+): string {
+  return join(
+    getSkillsDir(agent, global, workspaceRoot),
+    '.taito-base',
+    skillName
+  )
+}
+
+/**
+ * Get the merge base snapshot of a skill installed into a custom output
+ * directory, kept beside it as in an agent's skills directory
+ */
+export function getOutputBaseSnapshotDir(outputDir: string): string {
+  return join(dirname(outputDir), '.taito-base', basename(outputDir))
+}
+
+/**
+ * Get the canonical copy of a skill shared by several agents
+ */
+export function getSkillStoreDir(
+  skillName: string,
+  workspaceRoot?: string
+): string {
+  return join(
+    workspaceRoot ?? findWorkspaceRoot(),
+    '.taito',
+    'skills',
+    skillName
+  )
+}
+
+/**
+ * Get the merge base snapshot of a skill in the canonical store
+ */
+export function getStoreBaseSnapshotDir(
+  skillName: string,
+  workspaceRoot?: string
+): string {
+  return join(
+    workspaceRoot ?? findWorkspaceRoot(),
+    '.taito',
+    'skills',
+    '.taito-base',
+    skillName
+  )
+}
+
+/**
+ * Get the project manifest path (taito.toml at the workspace root)
+ */
+export function getManifestPath(workspaceRoot?: string): string {
+  return join(workspaceRoot ?? findWorkspaceRoot(), 'taito.toml')
+}
+
+/**
+ * Get the lockfile path (committed at the workspace root)
+ */
+export function getLockfilePath(workspaceRoot?: string): string {
+  return join(workspaceRoot ?? findWorkspaceRoot(), 'taito.lock')
+}
+
+/**
+ * Get the lock file that keeps concurrent taito processes apart
+ */
+export function getWorkspaceLockPath(workspaceRoot?: string): string {
+  return join(workspaceRoot ?? findWorkspaceRoot(), '.taito', 'lock')
+}
+
 /**
  * Check if a directory contains a customizable skill
  */
@@ -1,5 +1,24 @@
+import { readdirSync, type Dirent } from 'node:fs'
+import { relative, resolve } from 'node:path'
+import { createInterface } from 'node:readline/promises'
+import { styleText } from 'node:util'
 import * as p from '@clack/prompts'
-import type { SkillConfig, Variable, VariableValues } from '../types.js'
+import type {
+  EditResolution,
+  SkillConfig,
+  Variable,
+  VariableValue,
+  VariableValues,
+} from '../types.js'
+import { getRememberedAnswers } from './answers.js'
+import {
+  getDefaultValue,
+  getSuppliedAnswers,
+  getUnansweredVariables,
+  isVariableAsked,
+} from './config.js'
+import { findWorkspaceRoot } from './paths.js'
+import { validateValue } from './validation.js'
 
 // Module-level cache for current session
 let sessionVariableCache: VariableValues = {}
@@ -11,6 +30,14 @@ export function clearVariableCache(): void {
   sessionVariableCache = {}
 }
 
+/**
+ * Check whether there is a terminal to prompt in
+ * Without one (CI, piped input), prompting would block forever
+ */
+export function isInteractive(): boolean {
+  return !!process.stdin.isTTY
+}
+
 /**
  * Interpolate ${VAR} tokens in a string with values from the provided object
  * Supports nested references and falls back to empty string for undefined values
@@ -39,6 +66,7 @@ function interpolateVariable(
 
   switch (variable.type) {
     case 'string':
+    case 'path':
       return {
         ...variable,
         prompt: interpolatedPrompt,
@@ -48,6 +76,16 @@ function interpolateVariable(
             : undefined,
       }
 
+    case 'multichoice':
+      return {
+        ...variable,
+        prompt: interpolatedPrompt,
+        options: variable.options.map((opt) => ({
+          value: opt.value,
+          label: interpolate(opt.label, values),
+        })),
+      }
+
     case 'choice':
       return {
         ...variable,
@@ -62,13 +100,10 @@ function interpolateVariable(
         })),
       }
 
+    case 'number':
     case 'boolean':
-      return {
-        ...variable,
-        prompt: interpolatedPrompt,
-      }
-
     case 'array':
+    case 'secret':
       return {
         ...variable,
         prompt: interpolatedPrompt,
@@ -78,10 +113,17 @@ function interpolateVariable(
 
 /**
  * Prompt user for all variables in a skill config
+ * Preset values and TAITO_VAR_<KEY> answers are used without prompting,
+ * presets first; initial values are pre-filled as the answers (e.g., when
+ * reconfiguring an installed skill), then answers from earlier in the
+ * session and from the answer store. Variables skipped by their `when`
+ * expression get their default. Without a terminal, only required answers
+ * must be supplied and optional secrets are left empty
  */
 export async function promptForVariables(
   config: SkillConfig,
-  presetValues?: VariableValues
+  presetValues?: VariableValues,
+  initialValues?: VariableValues
 ): Promise<VariableValues> {
   const values: VariableValues = {}
 
@@ -90,22 +132,64 @@ export async function promptForVariables(
     return values
   }
 
+  const answers = { ...getSuppliedAnswers(config, {}), ...presetValues }
+  const interactive = isInteractive()
+
+  if (!interactive) {
+    const missing = getUnansweredVariables(config, answers)
+    if (missing.length > 0) {
+      p.log.error(
+        `Missing answers for ${config.meta.name}: ${missing.join(', ')}. Run taito in a terminal to answer them.`
+      )
+      process.exit(1)
+    }
+  }
+
+  let remembered: VariableValues = {}
+  try {
+    remembered = getRememberedAnswers(config.meta.name)
+  } catch (error) {
+    p.log.warn(`Ignoring remembered answers: ${(error as Error).message}`)
+  }
+
   p.intro(`Customizing ${config.meta.name}`)
 
   for (const [key, variable] of entries) {
+    // Skip questions whose `when` expression doesn't hold
+    if (!isVariableAsked(variable, values)) {
+      const value = getDefaultValue(variable, values)
+      if (value !== undefined) {
+        values[key] = value
+      }
+      continue
+    }
+
     // Use preset value if available
-    if (presetValues && key in presetValues) {
-      values[key] = presetValues[key]
+    if (key in answers) {
+      values[key] = answers[key]
       // Store in cache for future skills
-      sessionVariableCache[key] = presetValues[key]
+      sessionVariableCache[key] = answers[key]
+      continue
+    }
+
+    // Only optional secrets are left without a terminal
+    if (!interactive) {
+      values[key] = getDefaultValue(variable, values)!
       continue
     }
 
     // Interpolate variable definition with already-collected values
     const interpolatedVariable = interpolateVariable(variable, values)
 
-    // Check cache for previously answered value
-    const cachedValue = sessionVariableCache[key]
+    // Check initial values, cache and answer store for a previous answer.
+    // A remembered answer from another skill may not fit this variable
+    const rememberedValue =
+      validateValue(variable, remembered[key], findWorkspaceRoot()) ===
+      undefined
+        ? remembered[key]
+        : undefined
+    const cachedValue =
+      initialValues?.[key] ?? sessionVariableCache[key] ?? rememberedValue
     const value = await promptForVariable(
       key,
       interpolatedVariable,
@@ -134,21 +218,37 @@ export async function promptForVariables(
 async function promptForVariable(
   key: string,
   variable: Variable,
-  cachedValue?: string | boolean | string[]
-): Promise<string | boolean | string[]> {
+  cachedValue?: VariableValue
+): Promise<VariableValue> {
   switch (variable.type) {
     case 'string':
       return promptString(key, variable, cachedValue as string | undefined)
 
+    case 'number':
+      return promptNumber(key, variable, cachedValue as number | undefined)
+
     case 'choice':
       return promptChoice(key, variable, cachedValue as string | undefined)
 
+    case 'multichoice':
+      return promptMultiChoice(
+        key,
+        variable,
+        cachedValue as string[] | undefined
+      )
+
     case 'boolean':
       return promptBoolean(key, variable, cachedValue as boolean | undefined)
 
     case 'array':
       return promptArray(key, variable, cachedValue as string[] | undefined)
 
+    case 'path':
+      return promptPath(key, variable, cachedValue as string | undefined)
+
+    case 'secret':
+      return promptSecret(key, variable)
+
     default:
       throw new Error(`Unknown variable type for '${key}'`)
   }
@@ -169,14 +269,8 @@ async function promptString(
     message: variable.prompt,
     placeholder: defaultValue,
     defaultValue: defaultValue,
-    validate: variable.validate
-      ? (value) => {
-          const regex = new RegExp(variable.validate!)
-          if (!regex.test(value)) {
-            return `Value must match pattern: ${variable.validate}`
-          }
-        }
-      : undefined,
+    validate: (value) =>
+      validateValue(variable, value || defaultValue, findWorkspaceRoot()),
   })
 
   if (p.isCancel(result)) {
@@ -186,6 +280,37 @@ async function promptString(
   return result
 }
 
+/**
+ * Prompt for a number value
+ */
+async function promptNumber(
+  key: string,
+  variable: Extract<Variable, { type: 'number' }>,
+  cachedValue?: number
+): Promise<number> {
+  // Use cached value as default if available, otherwise use variable default
+  const defaultValue = (cachedValue ?? variable.default)?.toString()
+
+  const result = await p.text({
+    message: variable.prompt,
+    placeholder: defaultValue,
+    defaultValue: defaultValue,
+    validate: (value) => {
+      const input = value?.trim() || defaultValue
+      if (!input) {
+        return 'Value must be a number'
+      }
+      return validateValue(variable, Number(input), findWorkspaceRoot())
+    },
+  })
+
+  if (p.isCancel(result)) {
+    return result as never
+  }
+
+  return Number(result.trim() || defaultValue)
+}
+
 /**
  * Prompt for a choice value
  */
@@ -213,6 +338,34 @@ async function promptChoice(
   return result
 }
 
+/**
+ * Prompt for several choices
+ */
+async function promptMultiChoice(
+  key: string,
+  variable: Extract<Variable, { type: 'multichoice' }>,
+  cachedValue?: string[]
+): Promise<string[]> {
+  // Use cached value as initial if available, otherwise use variable default
+  const initialValues = cachedValue ?? variable.default ?? []
+
+  const result = await p.multiselect({
+    message: variable.prompt,
+    options: variable.options.map((opt) => ({
+      value: opt.value,
+      label: opt.label,
+    })),
+    initialValues,
+    required: variable.required ?? false,
+  })
+
+  if (p.isCancel(result)) {
+    return result as never
+  }
+
+  return result
+}
+
 /**
  * Prompt for a boolean value
  */
@@ -264,3 +417,147 @@ async function promptArray(
     .map((s) => s.trim())
     .filter((s) => s.length > 0)
 }
+
+/**
+ * Prompt for a path inside the workspace, relative to its root
+ * Tab completes the file or directory name being typed. Clack's text
+ * prompt can't complete, so this is a readline prompt drawn the same way
+ */
+async function promptPath(
+  key: string,
+  variable: Extract<Variable, { type: 'path' }>,
+  cachedValue?: string
+): Promise<string> {
+  const workspaceRoot = findWorkspaceRoot()
+  // Use cached value as default if available, otherwise use variable default
+  const defaultValue = cachedValue ?? variable.default
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    completer: (line: string): [string[], string] => [
+      completePath(line, workspaceRoot),
+      line,
+    ],
+  })
+  rl.on('SIGINT', () => {
+    rl.close()
+    p.cancel('Installation cancelled.')
+    process.exit(0)
+  })
+
+  const hint = defaultValue ? styleText('dim', ` (${defaultValue})`) : ''
+  process.stdout.write(
+    `${styleText('gray', '│')}\n${styleText('cyan', '◆')}  ${variable.prompt}${hint}\n`
+  )
+
+  try {
+    while (true) {
+      const input =
+        (await rl.question(`${styleText('cyan', '│')}  `)).trim() ||
+        defaultValue ||
+        ''
+      const error = validateValue(variable, input, workspaceRoot)
+      if (!error) {
+        return input
+          ? relative(workspaceRoot, resolve(workspaceRoot, input)) || '.'
+          : ''
+      }
+      process.stdout.write(`${styleText('yellow', '▲')}  ${error}\n`)
+    }
+  } finally {
+    rl.close()
+  }
+}
+
+/**
+ * List the completions of the path being typed: the entries of its
+ * directory that start with the last segment, directories with a slash
+ */
+function completePath(input: string, workspaceRoot: string): string[] {
+  const dirPart = input.slice(0, input.lastIndexOf('/') + 1)
+  const prefix = input.slice(dirPart.length)
+
+  let entries: Dirent[]
+  try {
+    entries = readdirSync(resolve(workspaceRoot, dirPart || '.'), {
+      withFileTypes: true,
+    })
+  } catch {
+    return []
+  }
+
+  // Hidden entries only complete when the name starts with a dot
+  return entries
+    .filter(
+      (entry) =>
+        entry.name.startsWith(prefix) &&
+        (prefix.startsWith('.') || !entry.name.startsWith('.'))
+    )
+    .map((entry) => `${dirPart}${entry.name}${entry.isDirectory() ? '/' : ''}`)
+    .sort()
+}
+
+/**
+ * Prompt for a secret value, masked while typing
+ */
+async function promptSecret(
+  key: string,
+  variable: Extract<Variable, { type: 'secret' }>
+): Promise<string> {
+  const result = await p.password({
+    message: variable.prompt,
+    validate: (value) => validateValue(variable, value, findWorkspaceRoot()),
+  })
+
+  if (p.isCancel(result)) {
+    return result as never
+  }
+
+  return result
+}
+
+/**
+ * Ask how to handle installed files that were edited locally
+ */
+export async function promptForEditResolution(
+  skillName: string,
+  files: string[]
+): Promise<EditResolution> {
+  p.log.warn(`'${skillName}' has local edits:`)
+  for (const file of files) {
+    p.log.message(`  ${file}`)
+  }
+
+  if (!isInteractive()) {
+    p.log.error(
+      `Can't ask how to handle the local edits to '${skillName}' without a terminal.`
+    )
+    process.exit(1)
+  }
+
+  const result = await p.select({
+    message: 'How should the edited files be handled?',
+    options: [
+      {
+        value: 'merge',
+        label: 'Merge',
+        hint: 'conflict markers where both sides changed',
+      },
+      { value: 'keep', label: 'Keep local copy' },
+      {
+        value: 'upstream',
+        label: 'Take upstream copy',
+        hint: 'discards local edits',
+      },
+    ],
+    initialValue: 'merge',
+  })
+
+  if (p.isCancel(result)) {
+    p.cancel('Installation cancelled.')
+    process.exit(0)
+  }
+
+  return result as EditResolution
+}
@@ -0,0 +1,58 @@
+import type { SkillSource, SourceProvider } from '../types.js'
+import { bitbucketProvider } from './bitbucket.js'
+import { gitProvider } from './git.js'
+import { gheProvider, githubProvider } from './github.js'
+import { gitlabProvider } from './gitlab.js'
+
+/**
+ * Built-in source providers, checked in order
+ * github.com is the fallback for sources without a prefix (owner/repo)
+ */
+export const sourceProviders: SourceProvider[] = [
+  gheProvider,
+  gitlabProvider,
+  bitbucketProvider,
+  gitProvider,
+  githubProvider,
+]
+
+/**
+ * Check whether a source string is a local path
+ */
+export function isLocalSource(source: string): boolean {
+  return (
+    source.startsWith('/') || source.startsWith('./') || source.startsWith('..')
+  )
+}
+
+/**
+ * Parse a skill source string
+ * Supports owner/repo[/path][@ref] (GitHub), ghe:, gitlab: and bitbucket:
+ * prefixes, git URLs and local paths
+ */
+export function parseSkillSource(source: string, ref?: string): SkillSource {
+  // Check if it's a local path
+  if (isLocalSource(source)) {
+    return {
+      type: 'local',
+      path: source,
+    }
+  }
+
+  const provider =
+    sourceProviders.find((p) => p.matches(source)) ?? githubProvider
+  return provider.parse(source, ref)
+}
+
+/**
+ * Get the provider for a parsed remote source
+ */
+export function getSourceProvider(source: SkillSource): SourceProvider {
+  const provider = sourceProviders.find((p) => p.type === source.type)
+
+  if (!provider) {
+    throw new Error(`No source provider for '${source.type}' sources`)
+  }
+
+  return provider
+}
@@ -0,0 +1,148 @@
+import { createWriteStream, mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { extract } from 'tar'
+import type { SkillSource } from '../types.js'
+
+/**
+ * Check whether a ref is a full commit SHA
+ */
+export function isCommitSha(ref: string): boolean {
+  return /^[0-9a-f]{40}$/i.test(ref)
+}
+
+/**
+ * Remove a trailing slash from a base URL
+ */
+export function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+/**
+ * Parse a hosted repository path
+ * Format: owner/repo[/path/to/skill][@ref]
+ * With nested repositories (GitLab subgroups), separate the skill path with
+ * "//": group/subgroup/repo[//path/to/skill][@ref]
+ */
+export function parseRepositoryPath(
+  type: SkillSource['type'],
+  path: string,
+  ref?: string
+): SkillSource {
+  const atIndex = path.indexOf('@')
+  const refFromPath = atIndex > 0 ? path.slice(atIndex + 1) : undefined
+  const fullPath = atIndex > 0 ? path.slice(0, atIndex) : path
+
+  let repoPath: string
+  let skillPath: string | undefined
+
+  if (fullPath.includes('//')) {
+    const separator = fullPath.indexOf('//')
+    repoPath = fullPath.slice(0, separator)
+    skillPath = fullPath.slice(separator + 2) || undefined
+  } else {
+    const segments = fullPath.split('/')
+    repoPath = segments.slice(0, 2).join('/')
+    skillPath = segments.slice(2).join('/') || undefined
+  }
+
+  const repoSegments = repoPath.split('/')
+  if (repoSegments.length < 2 || repoSegments.some((segment) => !segment)) {
+    throw new Error(
+      `Invalid ${type} source: "${path}". Expected format: owner/repo, owner/repo/path/to/skill, or owner/repo@ref`
+    )
+  }
+
+  return {
+    type,
+    owner: repoSegments.slice(0, -1).join('/'),
+    repo: repoSegments[repoSegments.length - 1],
+    ref: ref ?? refFromPath,
+    skillPath: skillPath?.replace(/\/+$/, ''),
+  }
+}
+
+/**
+ * Fetch JSON from a provider API
+ */
+export async function fetchJson<T>(
+  url: string,
+  headers: Record<string, string>,
+  label: string
+): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', ...headers },
+  })
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to resolve ${label}: ${response.status} ${response.statusText}`
+    )
+  }
+
+  return (await response.json()) as T
+}
+
+/**
+ * Download a tar.gz archive and extract it to a temp directory
+ * Returns the path to the single top-level directory of the archive
+ */
+export async function downloadArchive(
+  url: string,
+  headers: Record<string, string>,
+  label: string
+): Promise<string> {
+  // Create temp directory
+  const tempDir = mkdtempSync(join(tmpdir(), 'taito-'))
+
+  try {
+    const response = await fetch(url, { headers })
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${label}: ${response.status} ${response.statusText}`
+      )
+    }
+
+    if (!response.body) {
+      throw new Error(`No response body received for ${label}`)
+    }
+
+    // Write tarball to temp file
+    const tarballPath = join(tempDir, 'skill.tar.gz')
+    const writeStream = createWriteStream(tarballPath)
+    await pipeline(Readable.fromWeb(response.body as never), writeStream)
+
+    // Extract tarball
+    await extract({
+      file: tarballPath,
+      cwd: tempDir,
+    })
+
+    // Archives extract to a single directory named after the repo and ref
+    const extractedDir = readdirSync(tempDir).find(
+      (e) => e !== 'skill.tar.gz' && !e.startsWith('.')
+    )
+
+    if (!extractedDir) {
+      throw new Error('Failed to find extracted skill directory')
+    }
+
+    return join(tempDir, extractedDir)
+  } catch (error) {
+    // Clean up on error
+    rmSync(tempDir, { recursive: true, force: true })
+    throw error
+  }
+}
+
+/**
+ * Clean up a temp directory created by downloadArchive or cloneGitRepo
+ */
+export function cleanupTempDir(skillDir: string): void {
+  // The skill dir is inside a temp dir, so we need to go up one level
+  const tempDir = join(skillDir, '..')
+  rmSync(tempDir, { recursive: true, force: true })
+}
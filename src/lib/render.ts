@@ -9,18 +9,20 @@ import {
 import { dirname, join, relative, resolve } from 'node:path'
 import ejs from 'ejs'
 import type { VariableValues } from '../types.js'
+import { getFileSelection, isFileSelected, selectSkillFiles } from './files.js'
 
 /**
  * Render all .ejs templates in .taito/ directory
  * and copy non-templated files from root
+ * Both follow the skill's file selection rules (.taitoignore and include)
  */
 export async function renderSkill(
   skillDir: string,
   outputDir: string,
-  values: VariableValues,
-  dryRun: boolean = false
+  values: VariableValues
 ): Promise<string[]> {
   const taitoDir = join(skillDir, '.taito')
+  const selection = getFileSelection(skillDir)
   const renderedFiles: string[] = []
 
   // Collect all template files from .taito/
@@ -29,62 +31,35 @@ export async function renderSkill(
 
   // Process each template
   for (const templatePath of templateFiles) {
-    const relativePath = relative(taitoDir, templatePath)
     // Remove .ejs extension for output path
-    const outputPath = join(outputDir, relativePath.replace(/\.ejs$/, ''))
-    templateTargets.add(relativePath.replace(/\.ejs$/, ''))
+    const relativePath = relative(taitoDir, templatePath).replace(/\.ejs$/, '')
+    templateTargets.add(relativePath)
+
+    if (!isFileSelected(relativePath, selection)) {
+      continue
+    }
 
+    const outputPath = join(outputDir, relativePath)
     const rendered = await renderTemplate(templatePath, values)
 
-    if (dryRun) {
-      console.log(`Would write: ${outputPath}`)
-      console.log('---')
-      console.log(
-        rendered.slice(0, 500) + (rendered.length > 500 ? '\n...' : '')
-      )
-      console.log('---\n')
-    } else {
-      // Ensure directory exists
-      mkdirSync(dirname(outputPath), { recursive: true })
-      writeFileSync(outputPath, rendered)
-    }
+    // Ensure directory exists
+    mkdirSync(dirname(outputPath), { recursive: true })
+    writeFileSync(outputPath, rendered)
 
-    renderedFiles.push(relative(outputDir, outputPath))
+    renderedFiles.push(relativePath)
   }
 
   // Copy non-templated files from root skill directory
-  const rootFiles = collectAllFiles(skillDir)
-  for (const filePath of rootFiles) {
-    const relativePath = relative(skillDir, filePath)
-
-    // Skip .taito/ directory
-    if (relativePath.startsWith('.taito')) {
-      continue
-    }
-
+  for (const relativePath of selectSkillFiles(skillDir, selection)) {
     // Skip if there's a template for this file
     if (templateTargets.has(relativePath)) {
       continue
     }
 
-    // Skip hidden files and common non-skill files
-    if (
-      relativePath.startsWith('.') ||
-      relativePath === 'package.json' ||
-      relativePath === 'package-lock.json' ||
-      relativePath === 'node_modules'
-    ) {
-      continue
-    }
-
     const outputPath = join(outputDir, relativePath)
 
-    if (dryRun) {
-      console.log(`Would copy: ${outputPath}`)
-    } else {
-      mkdirSync(dirname(outputPath), { recursive: true })
-      copyFileSync(filePath, outputPath)
-    }
+    mkdirSync(dirname(outputPath), { recursive: true })
+    copyFileSync(join(skillDir, relativePath), outputPath)
 
     renderedFiles.push(relativePath)
   }
@@ -137,35 +112,6 @@ function collectFiles(dir: string, extension: string): string[] {
   return files
 }
 
-/**
- * Collect all files recursively (no extension filter)
- */
-function collectAllFiles(dir: string): string[] {
-  const files: string[] = []
-
-  try {
-    const entries = readdirSync(dir)
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry)
-      const stat = statSync(fullPath)
-
-      if (stat.isDirectory()) {
-        // Skip node_modules and hidden directories
-        if (entry !== 'node_modules' && !entry.startsWith('.')) {
-          files.push(...collectAllFiles(fullPath))
-        }
-      } else {
-        files.push(fullPath)
-      }
-    }
-  } catch {
-    // Directory doesn't exist, return empty
-  }
-
-  return files
-}
-
 /**
  * Render templates with default values (for build command)
  */
@@ -176,6 +122,7 @@ export async function renderWithDefaults(
 ): Promise<string[]> {
   const taitoDir = join(skillDir, '.taito')
   const targetDir = outputDir ? resolve(outputDir) : skillDir
+  const selection = getFileSelection(skillDir)
   const renderedFiles: string[] = []
 
   // Collect all template files from .taito/
@@ -183,9 +130,13 @@ export async function renderWithDefaults(
 
   // Process each template, writing to target directory
   for (const templatePath of templateFiles) {
-    const relativePath = relative(taitoDir, templatePath)
     // Remove .ejs extension and write to target directory
-    const outputPath = join(targetDir, relativePath.replace(/\.ejs$/, ''))
+    const relativePath = relative(taitoDir, templatePath).replace(/\.ejs$/, '')
+    if (!isFileSelected(relativePath, selection)) {
+      continue
+    }
+
+    const outputPath = join(targetDir, relativePath)
 
     const rendered = await renderTemplate(templatePath, values)
 
@@ -197,3 +148,43 @@ export async function renderWithDefaults(
 
   return renderedFiles
 }
+
+/**
+ * Copy a standard (non-customizable) skill to output directory
+ * Every file is copied except those left out by the skill's .taitoignore
+ */
+export function copyStandardSkill(
+  skillDir: string,
+  outputDir: string
+): string[] {
+  const files = selectSkillFiles(skillDir)
+
+  for (const file of files) {
+    const destPath = join(outputDir, file)
+    mkdirSync(dirname(destPath), { recursive: true })
+    copyFileSync(join(skillDir, file), destPath)
+  }
+
+  return files
+}
+
+/**
+ * List files recursively relative to a base path
+ */
+export function listFilesRecursive(dir: string, basePath: string): string[] {
+  const files: string[] = []
+  const entries = readdirSync(dir)
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry)
+    const stat = statSync(fullPath)
+
+    if (stat.isDirectory()) {
+      files.push(...listFilesRecursive(fullPath, basePath))
+    } else {
+      files.push(fullPath.replace(basePath + '/', ''))
+    }
+  }
+
+  return files
+}
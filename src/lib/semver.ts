@@ -0,0 +1,168 @@
+/**
+ * A parsed semantic version
+ */
+interface Version {
+  major: number
+  minor: number
+  patch: number
+  prerelease: string // empty for releases
+}
+
+/**
+ * A range as lower (inclusive) and upper (exclusive) bounds
+ */
+interface Range {
+  min: Version
+  max?: Version
+}
+
+/**
+ * Parse a version tag (e.g., "v1.2.3", "1.2.3-beta.1")
+ * Returns null if the tag isn't a full semantic version
+ */
+function parseVersion(tag: string): Version | null {
+  const match = tag.match(
+    /^v?(\d+)\.(\d+)\.(\d+)(?:-([\w.-]+))?(?:\+[\w.-]+)?$/
+  )
+  if (!match) {
+    return null
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ?? '',
+  }
+}
+
+/**
+ * Compare two versions (negative if a < b, positive if a > b)
+ */
+function compareVersions(a: Version, b: Version): number {
+  const diff = a.major - b.major || a.minor - b.minor || a.patch - b.patch
+  if (diff !== 0) {
+    return diff
+  }
+
+  // A release sorts after its prereleases
+  if (a.prerelease === b.prerelease) return 0
+  if (!a.prerelease) return 1
+  if (!b.prerelease) return -1
+  return a.prerelease.localeCompare(b.prerelease, undefined, { numeric: true })
+}
+
+/**
+ * Parse a range (^1.2.0, ~2, 1.x, latest)
+ * Returns null if the ref isn't a range
+ */
+function parseRange(ref: string): Range | null {
+  if (ref === 'latest' || ref === '*' || ref === 'x') {
+    return { min: { major: 0, minor: 0, patch: 0, prerelease: '' } }
+  }
+
+  const match = ref.match(
+    /^([~^])?v?(\d+)(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?$/
+  )
+  if (!match) {
+    return null
+  }
+
+  const [, operator, majorPart, minorPart, patchPart] = match
+  const isWildcard = (part?: string) => !part || /^[xX*]$/.test(part)
+
+  // Without an operator or wildcard it's an exact tag or branch (v1, 1.2.0)
+  if (!operator && !/[xX*]/.test(ref)) {
+    return null
+  }
+
+  const major = Number(majorPart)
+  const minor = isWildcard(minorPart) ? 0 : Number(minorPart)
+  const patch = isWildcard(patchPart) ? 0 : Number(patchPart)
+  const min = { major, minor, patch, prerelease: '' }
+  const below = (major: number, minor: number, patch = 0) => ({
+    major,
+    minor,
+    patch,
+    prerelease: '',
+  })
+
+  // 1, 1.x, ~1 and ^1 all allow any 1.y.z
+  if (isWildcard(minorPart)) {
+    return { min, max: below(major + 1, 0) }
+  }
+
+  // Caret allows changes that don't modify the left-most non-zero part
+  if (operator === '^') {
+    if (major > 0) return { min, max: below(major + 1, 0) }
+    if (minor > 0 || isWildcard(patchPart)) {
+      return { min, max: below(0, minor + 1) }
+    }
+    return { min, max: below(0, 0, patch + 1) }
+  }
+
+  // Tilde and 1.2.x allow patch changes
+  return { min, max: below(major, minor + 1) }
+}
+
+/**
+ * Check whether a ref is a version range rather than a branch, tag or commit
+ */
+export function isVersionRange(ref: string): boolean {
+  return parseRange(ref) !== null
+}
+
+/**
+ * Check whether a ref is a release tag (e.g., "v1.2.3")
+ */
+export function isVersionTag(ref: string): boolean {
+  return parseVersion(ref) !== null
+}
+
+/**
+ * Find the highest release tag that satisfies a range
+ * Returns null if no tag matches
+ */
+export function maxSatisfying(tags: string[], range: string): string | null {
+  const parsedRange = parseRange(range)
+  if (!parsedRange) {
+    return null
+  }
+
+  let best: { tag: string; version: Version } | null = null
+
+  for (const tag of tags) {
+    const version = parseVersion(tag)
+
+    // Prereleases are only installed when requested by exact tag
+    if (!version || version.prerelease) {
+      continue
+    }
+
+    if (
+      compareVersions(version, parsedRange.min) >= 0 &&
+      (!parsedRange.max || compareVersions(version, parsedRange.max) < 0) &&
+      (!best || compareVersions(version, best.version) > 0)
+    ) {
+      best = { tag, version }
+    }
+  }
+
+  return best?.tag ?? null
+}
+
+/**
+ * Find the highest release tag
+ */
+export function getLatestTag(tags: string[]): string | null {
+  return maxSatisfying(tags, 'latest')
+}
+
+/**
+ * Check whether tag a is a higher version than tag b
+ */
+export function isNewerTag(a: string, b: string): boolean {
+  const versionA = parseVersion(a)
+  const versionB = parseVersion(b)
+  return !!versionA && !!versionB && compareVersions(versionA, versionB) > 0
+}
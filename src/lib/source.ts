@@ -0,0 +1,163 @@
+import { existsSync } from 'node:fs'
+import { isAbsolute, join, relative, resolve } from 'node:path'
+import type { FetchedSource, FetchOptions } from '../types.js'
+import {
+  getCachedRepo,
+  listCachedRefs,
+  recordCachedRef,
+  resolveCachedRef,
+  storeInCache,
+} from './cache.js'
+import { discoverSkills, getSkillName } from './discovery.js'
+import { getSourceProvider, parseSkillSource } from './providers.js'
+import { cleanupTempDir } from './remote.js'
+import { getLatestTag, isVersionRange, maxSatisfying } from './semver.js'
+
+/**
+ * Fetch a skill source (remote repository or local path) into a local directory
+ * Remote refs are pinned to a commit so the result can be reproduced, and
+ * downloads are cached by repository and commit
+ * Version ranges (^1.2.0, ~2, latest) resolve to the highest matching tag
+ * Local paths are resolved against baseDir (defaults to the current directory)
+ */
+export async function fetchSource(
+  source: string,
+  ref?: string,
+  baseDir?: string,
+  options: FetchOptions = {}
+): Promise<FetchedSource> {
+  const skillSource = parseSkillSource(source, ref)
+
+  if (skillSource.type === 'local') {
+    const repoDir = resolve(baseDir ?? process.cwd(), skillSource.path!)
+    if (!existsSync(repoDir)) {
+      throw new Error(`Local path not found: ${repoDir}`)
+    }
+
+    return { source, skillSource, repoDir }
+  }
+
+  const provider = getSourceProvider(skillSource)
+  const repository = provider.getRepositoryId(skillSource)
+
+  // Version ranges resolve to the highest matching tag
+  let tag: string | undefined
+  if (skillSource.ref && isVersionRange(skillSource.ref)) {
+    const tags = options.offline
+      ? listCachedRefs(repository)
+      : await provider.listTags(skillSource)
+
+    tag = maxSatisfying(tags, skillSource.ref) ?? undefined
+    if (!tag) {
+      throw new Error(
+        `No tag of ${repository} matches ${skillSource.ref}${options.offline ? ' in the cache' : ''}`
+      )
+    }
+  }
+
+  const requestedRef = tag ?? skillSource.ref ?? 'HEAD'
+  const resolvedSource = { ...skillSource, ref: tag ?? skillSource.ref }
+
+  let commit: string
+  if (options.offline) {
+    const cachedCommit = resolveCachedRef(repository, requestedRef)
+    if (!cachedCommit) {
+      throw new Error(
+        `${repository}@${requestedRef} is not in the cache. Run without --offline to download it.`
+      )
+    }
+    commit = cachedCommit
+  } else {
+    commit = await provider.resolveRef(resolvedSource)
+    recordCachedRef(repository, requestedRef, commit)
+  }
+
+  let repoDir = getCachedRepo(repository, commit)
+  if (!repoDir) {
+    if (options.offline) {
+      throw new Error(
+        `${repository}@${commit.slice(0, 7)} is not in the cache. Run without --offline to download it.`
+      )
+    }
+
+    const extractedDir = await provider.download(resolvedSource, commit)
+    repoDir = storeInCache(repository, commit, extractedDir)
+    cleanupTempDir(extractedDir)
+  }
+
+  return { source, skillSource, repoDir, commit, tag }
+}
+
+/**
+ * Find the highest release tag of a fetched remote source, ignoring its range
+ */
+export async function findLatestTag(
+  fetched: FetchedSource
+): Promise<string | undefined> {
+  if (fetched.skillSource.type === 'local') {
+    return undefined
+  }
+
+  const tags = await getSourceProvider(fetched.skillSource).listTags(
+    fetched.skillSource
+  )
+  return getLatestTag(tags) ?? undefined
+}
+
+/**
+ * Get a source string that can be fetched again later
+ * Local paths are stored relative to the workspace root so they work for
+ * everyone, or absolute for global installs
+ */
+export function getPortableSource(
+  fetched: FetchedSource,
+  workspaceRoot: string,
+  global?: boolean
+): string {
+  if (fetched.skillSource.type !== 'local') {
+    return fetched.source
+  }
+
+  if (global) {
+    return fetched.repoDir
+  }
+
+  const localPath = relative(workspaceRoot, fetched.repoDir)
+  return localPath.startsWith('..') || isAbsolute(localPath)
+    ? localPath
+    : `./${localPath}`
+}
+
+/**
+ * Get the path of a skill relative to the root of its source
+ */
+export function getSkillPath(fetched: FetchedSource, skillDir: string): string {
+  return relative(fetched.repoDir, skillDir) || '.'
+}
+
+/**
+ * Find an installed skill within a fetched source
+ * Uses the recorded skill path if available, otherwise matches by name
+ */
+export function findSkillInSource(
+  fetched: FetchedSource,
+  name: string,
+  skillPath?: string
+): string {
+  if (skillPath) {
+    const skillDir = join(fetched.repoDir, skillPath)
+    if (existsSync(join(skillDir, 'SKILL.md'))) {
+      return skillDir
+    }
+  }
+
+  const match = discoverSkills(fetched.repoDir).find(
+    (skill) => getSkillName(skill.path) === name
+  )
+
+  if (!match) {
+    throw new Error(`Skill '${name}' not found in ${fetched.source}`)
+  }
+
+  return match.path
+}
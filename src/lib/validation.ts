@@ -0,0 +1,231 @@
+import { existsSync, statSync } from 'node:fs'
+import { isAbsolute, relative, resolve, sep } from 'node:path'
+import type {
+  NumberVariable,
+  PathVariable,
+  SkillConfig,
+  Variable,
+  VariableValue,
+  VariableValues,
+} from '../types.js'
+import { isVariableAsked } from './config.js'
+
+/**
+ * Exit code for answers that fail validation, so CI can tell a bad preset
+ * from other failures
+ */
+export const INVALID_ANSWERS_EXIT_CODE = 2
+
+/**
+ * A problem with the answer to a variable
+ */
+export interface ValidationProblem {
+  variable: string
+  message: string
+}
+
+/**
+ * Answers from a preset or taito.toml that don't fit the skill's variables
+ */
+export class AnswersValidationError extends Error {
+  constructor(
+    public problems: ValidationProblem[],
+    source: string
+  ) {
+    super(
+      `Invalid answers in ${source}:\n${problems
+        .map((problem) => `  ${problem.variable}: ${problem.message}`)
+        .join('\n')}`
+    )
+  }
+}
+
+/**
+ * Check an answer against its variable: type, allowed options, pattern,
+ * number range, path rules and `required`
+ * Prompts and presets share these checks. Returns an error message, or
+ * undefined if the answer is valid
+ */
+export function validateValue(
+  variable: Variable,
+  value: VariableValue | undefined,
+  workspaceRoot: string
+): string | undefined {
+  if (
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  ) {
+    return variable.required ? 'A value is required' : undefined
+  }
+
+  switch (variable.type) {
+    case 'string':
+    case 'secret':
+      if (typeof value !== 'string') {
+        return 'Value must be a string'
+      }
+      if (variable.validate && !new RegExp(variable.validate).test(value)) {
+        return `Value must match pattern: ${variable.validate}`
+      }
+      return undefined
+
+    case 'number':
+      if (typeof value !== 'number') {
+        return 'Value must be a number'
+      }
+      return checkNumber(value, variable)
+
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? undefined
+        : 'Value must be true or false'
+
+    case 'choice': {
+      const allowed = variable.options.map((option) => option.value)
+      return typeof value === 'string' && allowed.includes(value)
+        ? undefined
+        : `Value must be one of: ${allowed.join(', ')}`
+    }
+
+    case 'multichoice': {
+      const allowed = variable.options.map((option) => option.value)
+      return isStringList(value) && value.every((v) => allowed.includes(v))
+        ? undefined
+        : `Value must be a list of: ${allowed.join(', ')}`
+    }
+
+    case 'array':
+      return isStringList(value) ? undefined : 'Value must be a list of strings'
+
+    case 'path':
+      if (typeof value !== 'string') {
+        return 'Value must be a path'
+      }
+      return checkPath(value, variable, workspaceRoot)
+  }
+}
+
+/**
+ * Check answers that weren't prompted for (from a preset or taito.toml)
+ * Reports answers to variables the skill doesn't declare, and every
+ * asked variable whose final value is invalid
+ */
+export function validateAnswers(
+  config: SkillConfig,
+  answers: VariableValues,
+  values: VariableValues,
+  workspaceRoot: string
+): ValidationProblem[] {
+  const problems: ValidationProblem[] = []
+  const declared = Object.keys(config.variables)
+
+  for (const key of Object.keys(answers)) {
+    if (!(key in config.variables)) {
+      problems.push({
+        variable: key,
+        message: `Not a variable of ${config.meta.name} (expected one of: ${declared.join(', ')})`,
+      })
+    }
+  }
+
+  for (const [key, variable] of Object.entries(config.variables)) {
+    // Skipped variables aren't used, so their answers don't matter
+    if (!isVariableAsked(variable, values)) {
+      continue
+    }
+
+    const message = validateValue(variable, values[key], workspaceRoot)
+    if (message) {
+      const received =
+        values[key] === undefined ? '' : `, got ${JSON.stringify(values[key])}`
+      problems.push({
+        variable: key,
+        message: `${message} (${variable.type}${received})`,
+      })
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Throw an AnswersValidationError listing every invalid answer
+ */
+export function assertValidAnswers(
+  config: SkillConfig,
+  answers: VariableValues,
+  values: VariableValues,
+  workspaceRoot: string,
+  source: string
+): void {
+  const problems = validateAnswers(config, answers, values, workspaceRoot)
+  if (problems.length > 0) {
+    throw new AnswersValidationError(problems, source)
+  }
+}
+
+/**
+ * Check a number against a variable's constraints
+ * Returns an error message, or undefined if the number is valid
+ */
+export function checkNumber(
+  value: number,
+  variable: NumberVariable
+): string | undefined {
+  if (!Number.isFinite(value)) {
+    return 'Value must be a number'
+  }
+  if (variable.integer && !Number.isInteger(value)) {
+    return 'Value must be a whole number'
+  }
+  if (variable.min !== undefined && value < variable.min) {
+    return `Value must be at least ${variable.min}`
+  }
+  if (variable.max !== undefined && value > variable.max) {
+    return `Value must be at most ${variable.max}`
+  }
+  return undefined
+}
+
+/**
+ * Check a path against a variable's constraints: it must be inside the
+ * workspace and, if required, exist and be a file or directory
+ * Returns an error message, or undefined if the path is valid
+ */
+export function checkPath(
+  value: string,
+  variable: PathVariable,
+  workspaceRoot: string
+): string | undefined {
+  const path = resolve(workspaceRoot, value)
+  const relativePath = relative(workspaceRoot, path)
+
+  if (
+    relativePath === '..' ||
+    relativePath.startsWith(`..${sep}`) ||
+    isAbsolute(relativePath)
+  ) {
+    return `${value} is outside the workspace`
+  }
+
+  if (!existsSync(path)) {
+    return variable.exists ? `${value} does not exist` : undefined
+  }
+
+  const isDirectory = statSync(path).isDirectory()
+  if (variable.kind === 'file' && isDirectory) {
+    return `${value} is a directory, expected a file`
+  }
+  if (variable.kind === 'directory' && !isDirectory) {
+    return `${value} is a file, expected a directory`
+  }
+  return undefined
+}
+
+/**
+ * Check whether a value is a list of strings
+ */
+function isStringList(value: VariableValue): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string')
+}
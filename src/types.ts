@@ -1,7 +1,15 @@
 /**
  * Variable types supported in skill configuration
  */
-export type VariableType = 'string' | 'choice' | 'boolean' | 'array'
+export type VariableType =
+  | 'string'
+  | 'number'
+  | 'choice'
+  | 'multichoice'
+  | 'boolean'
+  | 'array'
+  | 'path'
+  | 'secret'
 
 /**
  * Option for choice-type variables
@@ -18,6 +26,7 @@ interface BaseVariable {
   type: VariableType
   prompt: string
   required?: boolean
+  when?: string // only asked when this expression holds
 }
 
 /**
@@ -29,6 +38,17 @@ export interface StringVariable extends BaseVariable {
   validate?: string // regex pattern
 }
 
+/**
+ * Number variable
+ */
+export interface NumberVariable extends BaseVariable {
+  type: 'number'
+  default?: number
+  min?: number
+  max?: number
+  integer?: boolean // only whole numbers
+}
+
 /**
  * Choice variable with options
  */
@@ -38,6 +58,15 @@ export interface ChoiceVariable extends BaseVariable {
   options: ChoiceOption[]
 }
 
+/**
+ * Multi-select variable, picking any number of options
+ */
+export interface MultiChoiceVariable extends BaseVariable {
+  type: 'multichoice'
+  default?: string[]
+  options: ChoiceOption[]
+}
+
 /**
  * Boolean variable
  */
@@ -52,7 +81,25 @@ export interface BooleanVariable extends BaseVariable {
 export interface ArrayVariable extends BaseVariable {
   type: 'array'
   default?: string[]
-  itemType?: 'string' // future: could support other types
+  itemType?: 'string'
+}
+
+/**
+ * Path variable, relative to the workspace root and inside it
+ */
+export interface PathVariable extends BaseVariable {
+  type: 'path'
+  default?: string
+  kind?: 'file' | 'directory' // what the path must point to, if it exists
+  exists?: boolean // the path must exist
+}
+
+/**
+ * Secret variable, prompted masked and never saved
+ */
+export interface SecretVariable extends BaseVariable {
+  type: 'secret'
+  validate?: string // regex pattern
 }
 
 /**
@@ -60,9 +107,13 @@ export interface ArrayVariable extends BaseVariable {
  */
 export type Variable =
   | StringVariable
+  | NumberVariable
   | ChoiceVariable
+  | MultiChoiceVariable
   | BooleanVariable
   | ArrayVariable
+  | PathVariable
+  | SecretVariable
 
 /**
  * Skill configuration metadata
@@ -79,12 +130,18 @@ export interface SkillMeta {
 export interface SkillConfig {
   meta: SkillMeta
   variables: Record<string, Variable>
+  include?: string[] // files to install, from [files] include
 }
 
 /**
  * User-provided values for variables
  */
-export type VariableValues = Record<string, string | boolean | string[]>
+export type VariableValues = Record<string, VariableValue>
+
+/**
+ * A single variable value
+ */
+export type VariableValue = string | number | boolean | string[]
 
 /**
  * Options for the add command
@@ -92,10 +149,115 @@ export type VariableValues = Record<string, string | boolean | string[]>
 export interface AddOptions {
   config?: string // path to preset config TOML
   dryRun?: boolean
+  json?: boolean // print the dry run as JSON
   output?: string // custom output directory
   ref?: string // git ref (branch, tag, commit)
-  agent?: string // specific agent to install for
+  agent?: string // agent(s) to install for, comma-separated
   global?: boolean // install globally instead of locally
+  offline?: boolean // use the download cache only
+  allAgents?: boolean // install for every detected agent
+  link?: LinkMode // share one canonical copy between agents
+  format?: OutputFormat // also write the skill in the agent's native format
+  package?: string // install into monorepo packages matching this glob
+  yes?: boolean // accept defaults and confirm without prompting
+  set?: string[] // answers as KEY=value
+  skill?: string // skills to install from the source, names or globs
+  all?: boolean // install every skill in the source
+  remember?: AnswerLevel // save the answers in the answer store
+  perSkill?: boolean // remember answers for this skill only
+}
+
+/**
+ * How an agent's skill directory points at the canonical copy
+ */
+export type LinkMode = 'symlink' | 'copy'
+
+/**
+ * Native format a skill is written in for agents that don't read SKILL.md
+ * (besides the skill directory itself)
+ */
+export type OutputFormat = 'skill' | 'cursor-rules' | 'agents-md' | 'copilot'
+
+/**
+ * Options for the update command
+ */
+export interface UpdateOptions {
+  dryRun?: boolean
+  json?: boolean // print the dry run as JSON
+  offline?: boolean
+}
+
+/**
+ * Options for the reconfigure command
+ */
+export interface ReconfigureOptions {
+  dryRun?: boolean
+  json?: boolean // print the dry run as JSON
+  agent?: string // the agent whose installation is reconfigured
+  set?: string[] // answers as KEY=value
+  offline?: boolean
+  remember?: AnswerLevel // save the answers in the answer store
+  perSkill?: boolean // remember answers for this skill only
+}
+
+/**
+ * Options for the sync command
+ */
+export interface SyncOptions {
+  check?: boolean // report differences and exit non-zero instead of changing anything
+  prune?: boolean // remove installed skills the manifest no longer lists
+  offline?: boolean
+}
+
+/**
+ * Options for the install command
+ */
+export interface InstallOptions {
+  offline?: boolean
+  set?: string[] // answers to secrets as KEY=value
+}
+
+/**
+ * Options for the list command
+ */
+export interface ListOptions {
+  agent?: string // only these agents, comma-separated
+  global?: boolean // list global installations instead of local ones
+  allScopes?: boolean // list local and global installations
+}
+
+/**
+ * Options for the remove command
+ */
+export interface RemoveOptions {
+  agent?: string // only these agents, comma-separated
+  global?: boolean // remove global installations instead of local ones
+  allScopes?: boolean // consider local and global installations
+}
+
+/**
+ * Options for the outdated command
+ */
+export interface OutdatedOptions {
+  json?: boolean
+}
+
+/**
+ * Options for the adopt command
+ */
+export interface AdoptOptions {
+  source?: string // source to record for every adopted skill
+  ref?: string // git ref or version range to record
+  agent?: string // only scan these agents, comma-separated
+  global?: boolean // scan global skills directories
+  offline?: boolean
+}
+
+/**
+ * Options for the doctor command
+ */
+export interface DoctorOptions {
+  fix?: boolean // repair problems that can be fixed automatically
 }
 
 /**
@@ -109,23 +271,68 @@ export interface BuildOptions {
  * Parsed skill source (GitHub or local path)
  */
 export interface SkillSource {
-  type: 'github' | 'local'
-  owner?: string // GitHub owner
-  repo?: string // GitHub repo
-  ref?: string // git ref
+  type: 'github' | 'ghe' | 'gitlab' | 'bitbucket' | 'git' | 'local'
+  owner?: string // repository owner (GitLab group path, Bitbucket workspace)
+  repo?: string // repository name
+  url?: string // git remote URL
+  ref?: string // git ref (defaults to the remote's HEAD for git sources)
   path?: string // local path
   skillPath?: string // path to specific skill within repo (e.g., "agent-skills/react-localization")
 }
 
+/**
+ * A host that skills can be fetched from
+ * Providers read their token and base URLs from the environment on each call
+ */
+export interface SourceProvider {
+  type: SkillSource['type']
+  name: string // display name (e.g., "GitLab")
+  tokenEnv?: string // environment variable holding an access token
+  matches: (source: string) => boolean
+  parse: (source: string, ref?: string) => SkillSource
+  getRepositoryId: (source: SkillSource) => string // cache key (e.g., "gitlab.com/group/repo")
+  resolveRef: (source: SkillSource) => Promise<string> // ref (or default branch) to commit SHA
+  listTags: (source: SkillSource) => Promise<string[]>
+  download: (source: SkillSource, commit: string) => Promise<string> // extracted temp dir
+}
+
+/**
+ * Options for fetching a skill source
+ */
+export interface FetchOptions {
+  offline?: boolean // resolve remote sources from the download cache only
+}
+
+/**
+ * A skill source fetched into a local directory
+ */
+export interface FetchedSource {
+  source: string // original source string
+  skillSource: SkillSource
+  repoDir: string // local directory containing the source
+  commit?: string // resolved commit SHA (remote sources only)
+  tag?: string // tag a version range resolved to
+}
+
 /**
  * Installed skill metadata (stored in .cursor/skills/.taito-meta.json)
  */
 export interface InstalledSkill {
   name: string
   source: string // original source (e.g., "owner/repo" or local path)
+  ref?: string // requested git ref or version range (e.g., "^1.2.0")
+  tag?: string // tag the version range resolved to
+  commit?: string // resolved commit SHA (remote sources only)
+  skillPath?: string // path to the skill within the source
+  version?: string // skill version at install time
+  store?: string // canonical copy shared with other agents, relative to the workspace root
+  link?: LinkMode // how this agent's directory points at the store
+  format?: OutputFormat // native format also written for this agent
+  output?: string // custom output directory, relative to the workspace root (absolute for global installs)
   installedAt: string // ISO date
   customized: boolean // whether it was customized on install
   variables?: VariableValues // values used during customization
+  files?: Record<string, string> // content hash of each file as written by taito
 }
 
 /**
@@ -144,3 +351,112 @@ export interface DiscoveredSkill {
   dirName: string // directory name (for display during selection)
   isCustomizable: boolean
 }
+
+/**
+ * A skill declared in the project manifest (taito.toml)
+ */
+export interface ManifestSkill {
+  name: string // installed skill name (the table key)
+  source: string // e.g., "owner/repo/path/to/skill" or local path
+  ref?: string // git ref (branch, tag, or commit)
+  agents?: string[] // target agents (defaults to the manifest's agents)
+  variables?: VariableValues // answers for customizable skills
+}
+
+/**
+ * Project manifest declaring the skills a workspace uses
+ */
+export interface TaitoManifest {
+  agents?: string[] // default target agents
+  skills: ManifestSkill[]
+}
+
+/**
+ * A skill pinned in the lockfile (taito.lock at the workspace root)
+ */
+export interface LockedSkill {
+  name: string
+  source: string // original source (e.g., "owner/repo" or local path relative to workspace root)
+  ref?: string // requested git ref or version range
+  tag?: string // tag the version range resolved to
+  commit?: string // resolved commit SHA (remote sources only)
+  skillPath: string // path to the skill within the source
+  version?: string // skill version
+  agent?: string // target agent
+  output?: string // custom output directory relative to workspace root
+  store?: string // canonical copy shared with other agents
+  link?: LinkMode
+  format?: OutputFormat
+  customized: boolean
+  variables?: VariableValues
+  integrity: string // content hash of the installed files
+}
+
+/**
+ * Where remembered answers are kept: per user or in the workspace
+ */
+export type AnswerLevel = 'user' | 'workspace'
+
+/**
+ * Answers remembered across installs (answers.json)
+ */
+export interface AnswerStore {
+  variables: VariableValues // by variable name, for any skill
+  skills: Record<string, VariableValues> // for one skill, win over variables
+}
+
+/**
+ * Options for the answers commands
+ */
+export interface AnswersOptions {
+  level?: AnswerLevel // only this store instead of both
+  skill?: string // only the answers remembered for this skill
+  all?: boolean // forget every answer
+}
+
+/**
+ * Lockfile for reproducing installed skills
+ */
+export interface TaitoLockfile {
+  lockfileVersion: number
+  skills: LockedSkill[]
+}
+
+/**
+ * How a file in an installed skill changes when re-rendered
+ */
+export type FileChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+/**
+ * A single file change between the installed and re-rendered skill
+ */
+export interface FileChange {
+  path: string // relative to the skill directory
+  status: FileChangeStatus
+}
+
+/**
+ * A file change with its content diff, as shown by --dry-run
+ */
+export interface FileDiff extends FileChange {
+  diff?: string[] // unified diff lines, for text files
+  binary?: boolean // binary files are reported without a diff
+}
+
+/**
+ * What a dry run would change in an installed skill (for --json)
+ */
+export interface SkillPreview {
+  name: string
+  agents: string[]
+  directory: string
+  files: FileDiff[]
+}
+
+/**
+ * How to handle installed files that were edited locally
+ * - keep: keep the local copy
+ * - upstream: overwrite with the newly rendered copy
+ * - merge: three-way merge with conflict markers
+ */
+export type EditResolution = 'keep' | 'upstream' | 'merge'